@@ -1,63 +1,390 @@
 // router.ts
 import { Status } from "https://deno.land/std@0.208.0/http/status.ts";
 import { load } from "https://deno.land/std@0.208.0/dotenv/mod.ts";
+import { parse as parseYaml } from "https://deno.land/std@0.208.0/yaml/mod.ts";
+import { Image } from "https://deno.land/x/imagescript@1.3.0/mod.ts";
+import { AsyncLocalStorage } from "node:async_hooks";
 
 // --- Configuration Loading ---
+// Snapshot of the real process environment, which keeps precedence over .env on reload as it does here.
+const PROCESS_ENV = Deno.env.toObject();
 await load({ export: true });
 
-const CUSTOM_ACCESS_KEY = Deno.env.get("CUSTOM_ACCESS_KEY");
+// Models, Fal keys and client keys can be reloaded at runtime (see Configuration Reload).
+let CUSTOM_ACCESS_KEY = Deno.env.get("CUSTOM_ACCESS_KEY");
+let CLIENT_KEYS_FILE = Deno.env.get("CLIENT_KEYS_FILE");
 const AI_KEYS_RAW = Deno.env.get("AI_KEYS");
+const AI_KEY_WEIGHTS_RAW = Deno.env.get("AI_KEY_WEIGHTS");
 const PORT = parseInt(Deno.env.get("PORT") || "8000");
 const DEBUG_MODE = Deno.env.get("DEBUG_MODE")?.toLowerCase() === 'true';
+const LOG_LEVEL_RAW = (Deno.env.get("LOG_LEVEL") || (DEBUG_MODE ? 'debug' : 'info')).toLowerCase();
+const LOG_FORMAT = (Deno.env.get("LOG_FORMAT") || 'text').toLowerCase();
+const LOG_REDACT_PROMPTS = Deno.env.get("LOG_REDACT_PROMPTS")?.toLowerCase() === 'true';
+const USAGE_LOG_FILE = Deno.env.get("USAGE_LOG_FILE");
+const MODEL_PRICES_RAW = Deno.env.get("MODEL_PRICES");
+const SCHEMA_CACHE_DIR = Deno.env.get("SCHEMA_CACHE_DIR");
+const SCHEMA_BUNDLE_FILE = Deno.env.get("SCHEMA_BUNDLE_FILE");
+const MAX_IMAGE_BYTES = parseInt(Deno.env.get("MAX_IMAGE_BYTES") || String(20 * 1024 * 1024));
+const MAX_N = parseInt(Deno.env.get("MAX_N") || "4");
 
-const SUPPORTED_MODELS_RAW = Deno.env.get("SUPPORTED_MODELS");
-const SUPPORTED_MODELS_MAP = new Map<string, string>();
+let MODELS_FILE = Deno.env.get("MODELS_FILE");
+let SUPPORTED_MODELS_RAW = Deno.env.get("SUPPORTED_MODELS");
 
-if (SUPPORTED_MODELS_RAW) {
-    SUPPORTED_MODELS_RAW.split(',')
+// --- Logging ---
+// Leveled logger that writes either readable text or one JSON object per line (LOG_FORMAT=json).
+// The request ID of the HTTP request being served is attached to every line via AsyncLocalStorage,
+// and credentials (plus prompts, with LOG_REDACT_PROMPTS) are redacted from logged fields.
+type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+const LOG_LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+if (!(LOG_LEVEL_RAW in LOG_LEVELS)) { console.error(`FATAL: LOG_LEVEL must be one of debug, info, warn, error (got '${LOG_LEVEL_RAW}').`); Deno.exit(1); }
+if (LOG_FORMAT !== 'text' && LOG_FORMAT !== 'json') { console.error(`FATAL: LOG_FORMAT must be 'text' or 'json' (got '${LOG_FORMAT}').`); Deno.exit(1); }
+const LOG_LEVEL = LOG_LEVEL_RAW as LogLevel;
+const requestLogContext = new AsyncLocalStorage<{ requestId: string }>();
+const SECRET_FIELD_PATTERN = /^(authorization|api_?key|apikey|x-api-key|key)$/i;
+const PROMPT_FIELD_PATTERN = /^(prompt|negative_prompt|revised_prompt)$/i;
+
+function redactLogValue(value: unknown, depth = 0): unknown {
+    if (depth > 6 || value === null || typeof value !== 'object') return value;
+    if (value instanceof Error) return { message: value.message, stack: value.stack };
+    if (Array.isArray(value)) return value.map(item => redactLogValue(item, depth + 1));
+    const redacted: Record<string, unknown> = {};
+    for (const [key, fieldValue] of Object.entries(value)) {
+        if (SECRET_FIELD_PATTERN.test(key)) redacted[key] = '[REDACTED]';
+        else if (LOG_REDACT_PROMPTS && PROMPT_FIELD_PATTERN.test(key) && typeof fieldValue === 'string') redacted[key] = `[REDACTED ${fieldValue.length} chars]`;
+        else redacted[key] = redactLogValue(fieldValue, depth + 1);
+    }
+    return redacted;
+}
+
+function writeLog(level: LogLevel, message: string, fields?: Record<string, unknown>) {
+    if (LOG_LEVELS[level] < LOG_LEVELS[LOG_LEVEL]) return;
+    const requestId = requestLogContext.getStore()?.requestId;
+    const safeFields = fields ? redactLogValue(fields) as Record<string, unknown> : undefined;
+    const write = level === 'error' ? console.error : level === 'warn' ? console.warn : console.log;
+    if (LOG_FORMAT === 'json') { write(JSON.stringify({ time: new Date().toISOString(), level, msg: message, ...(requestId ? { request_id: requestId } : {}), ...safeFields })); return; }
+    const renderedFields = Object.entries(safeFields || {}).map(([key, value]) => ` ${key}=${typeof value === 'string' ? value : JSON.stringify(value)}`).join('');
+    write(`${new Date().toISOString()} ${level.toUpperCase().padEnd(5)}${requestId ? ` [${requestId}]` : ''} ${message}${renderedFields}`);
+}
+const log = {
+    debug: (message: string, fields?: Record<string, unknown>) => writeLog('debug', message, fields),
+    info: (message: string, fields?: Record<string, unknown>) => writeLog('info', message, fields),
+    warn: (message: string, fields?: Record<string, unknown>) => writeLog('warn', message, fields),
+    error: (message: string, fields?: Record<string, unknown>) => writeLog('error', message, fields),
+};
+log.info(`Log level is ${LOG_LEVEL.toUpperCase()} (${LOG_FORMAT} format).`);
+
+// --- Environment Variable Validation ---
+if (!CUSTOM_ACCESS_KEY && !CLIENT_KEYS_FILE) { log.error("FATAL: Neither CUSTOM_ACCESS_KEY nor CLIENT_KEYS_FILE is set."); Deno.exit(1); }
+if (!AI_KEYS_RAW) { log.error("FATAL: AI_KEYS environment variable is not set."); Deno.exit(1); }
+if (!Number.isInteger(MAX_N) || MAX_N < 1) { log.error("FATAL: MAX_N must be a positive integer."); Deno.exit(1); }
+if (!Number.isInteger(MAX_IMAGE_BYTES) || MAX_IMAGE_BYTES < 1) { log.error("FATAL: MAX_IMAGE_BYTES must be a positive integer."); Deno.exit(1); }
+
+// --- Model Catalog ---
+// Models are declared in MODELS_FILE (JSON, or YAML by extension) when it is set, otherwise in the
+// SUPPORTED_MODELS `alias:endpoint` string. File entries may also carry Fal payload defaults,
+// a cap on `n` (up to MAX_N), an allow-list of sizes, a generation timeout, OpenAI
+// `quality`/`style` presets and descriptive metadata for /v1/models.
+// A preset is what one `quality` or `style` value turns into: extra Fal parameters and/or a prompt suffix.
+interface ParameterPreset { params: Record<string, unknown>; promptSuffix: string | null; }
+type PresetMap = Record<string, ParameterPreset>;
+interface ModelDefinition { alias: string; endpoint: string; displayName: string | null; description: string | null; tags: string[]; defaults: Record<string, unknown>; maxN: number; allowedSizes: string[] | null; sizeMultiple: number | null; timeoutMs: number | null; quality: PresetMap; style: PresetMap; }
+const SUPPORTED_MODELS_MAP = new Map<string, ModelDefinition>();
+const MODEL_DEFINITION_FIELDS = ['endpoint', 'display_name', 'description', 'tags', 'defaults', 'max_n', 'allowed_sizes', 'size_multiple', 'timeout_ms', 'quality', 'style'];
+// These payload fields are filled in from each request and cannot be given model-level defaults.
+const REQUEST_ONLY_PAYLOAD_FIELDS = ['prompt', 'num_images', 'seed', 'image_url', 'mask_url'];
+
+function parseSupportedModelsString(raw: string): ModelDefinition[] {
+    return raw.split(',')
       .map(pair => pair.trim())
       .filter(pair => pair.includes(':'))
-      .forEach(pair => {
-          const [key, ...valueParts] = pair.split(':');
-          const value = valueParts.join(':');
-          if (key && value) {
-              SUPPORTED_MODELS_MAP.set(key.trim(), value.trim());
-          }
-      });
+      .map(pair => { const [key, ...valueParts] = pair.split(':'); return { alias: key.trim(), endpoint: valueParts.join(':').trim() }; })
+      .filter(({ alias, endpoint }) => alias && endpoint)
+      .map(({ alias, endpoint }) => ({ alias, endpoint, displayName: null, description: null, tags: [], defaults: {}, maxN: MAX_N, allowedSizes: null, sizeMultiple: null, timeoutMs: null, quality: {}, style: {} }));
 }
 
-function debugLog(...args: any[]) { if (DEBUG_MODE) console.log("[DEBUG]", ...args); }
-console.log(`Debug mode is ${DEBUG_MODE ? 'ENABLED' : 'DISABLED'}.`);
+function parsePresetMap(value: any, where: string): PresetMap {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) throw new Error(`${where} must be an object keyed by ${where.split('.').pop()} value.`);
+    const presets: PresetMap = {};
+    for (const [name, preset] of Object.entries<any>(value)) {
+        if (!preset || typeof preset !== 'object' || Array.isArray(preset)) throw new Error(`${where}.${name} must be an object.`);
+        const unknownFields = Object.keys(preset).filter(field => field !== 'params' && field !== 'prompt_suffix');
+        if (unknownFields.length > 0) throw new Error(`${where}.${name} has unknown fields: ${unknownFields.join(', ')}.`);
+        if (preset.params !== undefined && (!preset.params || typeof preset.params !== 'object' || Array.isArray(preset.params))) throw new Error(`${where}.${name}.params must be an object of Fal input parameters.`);
+        const reservedParams = Object.keys(preset.params || {}).filter(field => REQUEST_ONLY_PAYLOAD_FIELDS.includes(field));
+        if (reservedParams.length > 0) throw new Error(`${where}.${name}.params cannot set per-request fields: ${reservedParams.join(', ')}.`);
+        if (preset.prompt_suffix !== undefined && typeof preset.prompt_suffix !== 'string') throw new Error(`${where}.${name}.prompt_suffix must be a string.`);
+        presets[name] = { params: preset.params ?? {}, promptSuffix: preset.prompt_suffix ?? null };
+    }
+    return presets;
+}
 
-// --- Environment Variable Validation ---
-if (!CUSTOM_ACCESS_KEY) { console.error("FATAL: CUSTOM_ACCESS_KEY is not set."); Deno.exit(1); }
-if (!AI_KEYS_RAW) { console.error("FATAL: AI_KEYS environment variable is not set."); Deno.exit(1); }
-const AI_KEYS = AI_KEYS_RAW.split(',').map(key => key.trim()).filter(key => key.length > 0);
-if (AI_KEYS.length === 0) { console.error("FATAL: AI_KEYS contains no valid keys."); Deno.exit(1); }
-if (SUPPORTED_MODELS_MAP.size === 0) { console.error("FATAL: SUPPORTED_MODELS in .env is not set or is invalid."); Deno.exit(1); }
-console.log(`Loaded ${SUPPORTED_MODELS_MAP.size} supported models from .env`);
+function parseModelDefinition(alias: string, entry: any, sharedPresets: { quality: PresetMap; style: PresetMap }): ModelDefinition {
+    const where = `models.${alias}`;
+    if (typeof entry === 'string') entry = { endpoint: entry };
+    if (!entry || typeof entry !== 'object' || Array.isArray(entry)) throw new Error(`${where} must be an object or an endpoint ID string.`);
+    const unknownFields = Object.keys(entry).filter(field => !MODEL_DEFINITION_FIELDS.includes(field));
+    if (unknownFields.length > 0) throw new Error(`${where} has unknown fields: ${unknownFields.join(', ')}.`);
+    if (typeof entry.endpoint !== 'string' || entry.endpoint.trim() === '') throw new Error(`${where}.endpoint must be a non-empty Fal endpoint ID.`);
+    if (entry.display_name !== undefined && typeof entry.display_name !== 'string') throw new Error(`${where}.display_name must be a string.`);
+    if (entry.description !== undefined && typeof entry.description !== 'string') throw new Error(`${where}.description must be a string.`);
+    if (entry.tags !== undefined && (!Array.isArray(entry.tags) || entry.tags.some((tag: unknown) => typeof tag !== 'string'))) throw new Error(`${where}.tags must be an array of strings.`);
+    if (entry.defaults !== undefined && (!entry.defaults || typeof entry.defaults !== 'object' || Array.isArray(entry.defaults))) throw new Error(`${where}.defaults must be an object of Fal input parameters.`);
+    const reservedDefaults = Object.keys(entry.defaults || {}).filter(field => REQUEST_ONLY_PAYLOAD_FIELDS.includes(field));
+    if (reservedDefaults.length > 0) throw new Error(`${where}.defaults cannot set per-request fields: ${reservedDefaults.join(', ')}.`);
+    if (entry.max_n !== undefined && (!Number.isInteger(entry.max_n) || entry.max_n < 1 || entry.max_n > MAX_N)) throw new Error(`${where}.max_n must be an integer between 1 and ${MAX_N}.`);
+    if (entry.allowed_sizes !== undefined && (!Array.isArray(entry.allowed_sizes) || entry.allowed_sizes.length === 0 || entry.allowed_sizes.some((size: unknown) => typeof size !== 'string' || !parseSize(size)))) throw new Error(`${where}.allowed_sizes must be a non-empty array of 'WIDTHxHEIGHT' strings.`);
+    if (entry.size_multiple !== undefined && (!Number.isInteger(entry.size_multiple) || entry.size_multiple < 1)) throw new Error(`${where}.size_multiple must be a positive integer.`);
+    if (entry.timeout_ms !== undefined && (!Number.isInteger(entry.timeout_ms) || entry.timeout_ms < 1)) throw new Error(`${where}.timeout_ms must be a positive integer.`);
+    return {
+        alias,
+        endpoint: entry.endpoint.trim(),
+        displayName: entry.display_name ?? null,
+        description: entry.description ?? null,
+        tags: entry.tags ?? [],
+        defaults: entry.defaults ?? {},
+        maxN: entry.max_n ?? MAX_N,
+        allowedSizes: entry.allowed_sizes?.map((size: string) => size.toLowerCase()) ?? null,
+        sizeMultiple: entry.size_multiple ?? null,
+        timeoutMs: entry.timeout_ms ?? null,
+        quality: entry.quality === undefined ? sharedPresets.quality : parsePresetMap(entry.quality, `${where}.quality`),
+        style: entry.style === undefined ? sharedPresets.style : parsePresetMap(entry.style, `${where}.style`),
+    };
+}
+
+// Reads the configured model source. Every invalid entry is reported at once rather than one per restart.
+async function loadModelCatalog(modelsFile: string | undefined, supportedModelsRaw: string | undefined): Promise<Map<string, ModelDefinition>> {
+    if (!modelsFile) return new Map(parseSupportedModelsString(supportedModelsRaw || '').map(definition => [definition.alias, definition]));
+    const content = await Deno.readTextFile(modelsFile);
+    const parsed: any = /\.ya?ml$/i.test(modelsFile) ? parseYaml(content) : JSON.parse(content);
+    if (!parsed?.models || typeof parsed.models !== 'object' || Array.isArray(parsed.models)) throw new Error("Expected a top-level 'models' object keyed by model alias.");
+    // Top-level `quality` and `style` presets apply to every model that does not declare its own.
+    const sharedPresets = {
+        quality: parsed.quality === undefined ? {} : parsePresetMap(parsed.quality, 'quality'),
+        style: parsed.style === undefined ? {} : parsePresetMap(parsed.style, 'style'),
+    };
+    const definitions: ModelDefinition[] = [];
+    const errors: string[] = [];
+    for (const [alias, entry] of Object.entries<any>(parsed.models)) {
+        try { definitions.push(parseModelDefinition(alias, entry, sharedPresets)); }
+        catch (error) { errors.push(error instanceof Error ? error.message : String(error)); }
+    }
+    if (errors.length > 0) throw new Error(`${errors.length} invalid model entr${errors.length === 1 ? 'y' : 'ies'}:\n  - ${errors.join('\n  - ')}`);
+    return new Map(definitions.map(definition => [definition.alias, definition]));
+}
+
+// Replaces a map's contents in one synchronous step, so concurrent requests never see a partial swap.
+function replaceMapContents<K, V>(target: Map<K, V>, source: Map<K, V>) { target.clear(); for (const [key, value] of source) target.set(key, value); }
+
+try {
+    replaceMapContents(SUPPORTED_MODELS_MAP, await loadModelCatalog(MODELS_FILE, SUPPORTED_MODELS_RAW));
+} catch (error) {
+    log.error(`FATAL: Failed to load MODELS_FILE '${MODELS_FILE}': ${error instanceof Error ? error.message : error}`);
+    Deno.exit(1);
+}
+if (MODELS_FILE && SUPPORTED_MODELS_RAW) log.warn("SUPPORTED_MODELS is ignored because MODELS_FILE is set.");
+if (SUPPORTED_MODELS_MAP.size === 0) { log.error(MODELS_FILE ? `FATAL: MODELS_FILE '${MODELS_FILE}' defines no models.` : "FATAL: SUPPORTED_MODELS in .env is not set or is invalid."); Deno.exit(1); }
+log.info(`Loaded ${SUPPORTED_MODELS_MAP.size} supported models from ${MODELS_FILE || '.env'}`);
+
+// --- Client Key Store ---
+// Client keys are stored as SHA-256 hex digests and map to a named tenant. CUSTOM_ACCESS_KEY, if
+// set, is registered as the 'default' tenant with access to every model.
+interface RateLimits { requests_per_minute?: number; images_per_day?: number; max_concurrent?: number; }
+interface ClientKey { tenant: string; keyHash: string; allowedModels: string[] | null; enabled: boolean; rateLimits: RateLimits | null; }
+const CLIENT_KEYS = new Map<string, ClientKey>();
+const TENANT_RATE_LIMITS = new Map<string, RateLimits>();
+// Blocked terms match whole words in Latin text and anywhere in other scripts; patterns are
+// case-insensitive regular expressions.
+type NsfwAction = 'allow' | 'blur' | 'drop' | 'reject';
+interface ContentPolicy { forceSafetyChecker: boolean; blockedTerms: { term: string; pattern: RegExp }[]; blockedPatterns: RegExp[]; nsfwAction: NsfwAction; }
+const NSFW_ACTIONS: NsfwAction[] = ['allow', 'blur', 'drop', 'reject'];
+const TENANT_CONTENT_POLICIES = new Map<string, ContentPolicy>();
+
+function parseRateLimits(value: any, where: string): RateLimits {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) throw new Error(`${where} must be an object.`);
+    const limits: RateLimits = {};
+    for (const field of ['requests_per_minute', 'images_per_day', 'max_concurrent'] as const) {
+        if (value[field] === undefined) continue;
+        if (!Number.isInteger(value[field]) || value[field] <= 0) throw new Error(`${where}.${field} must be a positive integer.`);
+        limits[field] = value[field];
+    }
+    return limits;
+}
+function parseContentPolicy(value: any, where: string): ContentPolicy {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) throw new Error(`${where} must be an object.`);
+    if (value.force_safety_checker !== undefined && typeof value.force_safety_checker !== 'boolean') throw new Error(`${where}.force_safety_checker must be a boolean.`);
+    for (const field of ['blocked_terms', 'blocked_patterns']) {
+        if (value[field] !== undefined && (!Array.isArray(value[field]) || value[field].some((entry: unknown) => typeof entry !== 'string' || entry.trim() === ''))) throw new Error(`${where}.${field} must be an array of non-empty strings.`);
+    }
+    if (value.nsfw_action !== undefined && !NSFW_ACTIONS.includes(value.nsfw_action)) throw new Error(`${where}.nsfw_action must be one of: ${NSFW_ACTIONS.join(', ')}.`);
+    const blockedTerms = (value.blocked_terms ?? []).map((term: string) => ({ term, pattern: new RegExp(`(?<![A-Za-z0-9])${term.trim().replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}(?![A-Za-z0-9])`, 'i') }));
+    const blockedPatterns = (value.blocked_patterns ?? []).map((pattern: string, index: number) => {
+        try { return new RegExp(pattern, 'i'); } catch (e) { throw new Error(`${where}.blocked_patterns[${index}] is not a valid regular expression: ${e instanceof Error ? e.message : e}`); }
+    });
+    return { forceSafetyChecker: value.force_safety_checker ?? false, blockedTerms, blockedPatterns, nsfwAction: value.nsfw_action ?? 'allow' };
+}
+
+// Keys without their own `rate_limits` fall back to these env-configured defaults.
+const DEFAULT_RATE_LIMITS = parseRateLimits({
+    requests_per_minute: Deno.env.get("RATE_LIMIT_REQUESTS_PER_MINUTE") ? parseInt(Deno.env.get("RATE_LIMIT_REQUESTS_PER_MINUTE")!) : undefined,
+    images_per_day: Deno.env.get("RATE_LIMIT_IMAGES_PER_DAY") ? parseInt(Deno.env.get("RATE_LIMIT_IMAGES_PER_DAY")!) : undefined,
+    max_concurrent: Deno.env.get("RATE_LIMIT_MAX_CONCURRENT") ? parseInt(Deno.env.get("RATE_LIMIT_MAX_CONCURRENT")!) : undefined,
+}, "RATE_LIMIT_*");
+
+async function sha256Hex(value: string): Promise<string> {
+    const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(value));
+    return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+function parseClientKeyEntry(entry: any, index: number, models: Map<string, ModelDefinition>): ClientKey {
+    if (!entry || typeof entry !== 'object') throw new Error(`clients[${index}] must be an object.`);
+    if (typeof entry.tenant !== 'string' || entry.tenant.trim() === '') throw new Error(`clients[${index}].tenant must be a non-empty string.`);
+    if (typeof entry.key_sha256 !== 'string' || !/^[0-9a-f]{64}$/i.test(entry.key_sha256)) throw new Error(`clients[${index}].key_sha256 must be a 64-character hex SHA-256 digest.`);
+    if (entry.models !== undefined && (!Array.isArray(entry.models) || entry.models.some((m: unknown) => typeof m !== 'string'))) throw new Error(`clients[${index}].models must be an array of model names.`);
+    if (entry.enabled !== undefined && typeof entry.enabled !== 'boolean') throw new Error(`clients[${index}].enabled must be a boolean.`);
+    const rateLimits = entry.rate_limits === undefined ? null : parseRateLimits(entry.rate_limits, `clients[${index}].rate_limits`);
+    const unknownModels = (entry.models || []).filter((m: string) => !models.has(m));
+    if (unknownModels.length > 0) log.warn(`[Client Keys] Tenant '${entry.tenant}' references unknown models: ${unknownModels.join(', ')}`);
+    return { tenant: entry.tenant.trim(), keyHash: entry.key_sha256.toLowerCase(), allowedModels: entry.models ?? null, enabled: entry.enabled ?? true, rateLimits };
+}
+
+interface ClientKeyStore { clientKeys: Map<string, ClientKey>; tenantRateLimits: Map<string, RateLimits>; tenantContentPolicies: Map<string, ContentPolicy>; }
+async function loadClientKeys(customAccessKey: string | undefined, clientKeysFile: string | undefined, models: Map<string, ModelDefinition>): Promise<ClientKeyStore> {
+    const store: ClientKeyStore = { clientKeys: new Map(), tenantRateLimits: new Map(), tenantContentPolicies: new Map() };
+    if (customAccessKey) {
+        const keyHash = await sha256Hex(customAccessKey);
+        store.clientKeys.set(keyHash, { tenant: "default", keyHash, allowedModels: null, enabled: true, rateLimits: null });
+    }
+    if (!clientKeysFile) return store;
+    const parsed = JSON.parse(await Deno.readTextFile(clientKeysFile));
+    if (!Array.isArray(parsed?.clients)) throw new Error("Expected a top-level 'clients' array.");
+    parsed.clients.forEach((entry: any, index: number) => {
+        const clientKey = parseClientKeyEntry(entry, index, models);
+        if (store.clientKeys.has(clientKey.keyHash)) throw new Error(`clients[${index}] reuses a key that is already registered.`);
+        store.clientKeys.set(clientKey.keyHash, clientKey);
+    });
+    if (parsed.tenants !== undefined && (typeof parsed.tenants !== 'object' || Array.isArray(parsed.tenants))) throw new Error("'tenants' must be an object keyed by tenant name.");
+    for (const [tenant, tenantConfig] of Object.entries<any>(parsed.tenants || {})) {
+        if (tenantConfig?.rate_limits !== undefined) store.tenantRateLimits.set(tenant, parseRateLimits(tenantConfig.rate_limits, `tenants.${tenant}.rate_limits`));
+        if (tenantConfig?.content_policy !== undefined) store.tenantContentPolicies.set(tenant, parseContentPolicy(tenantConfig.content_policy, `tenants.${tenant}.content_policy`));
+    }
+    return store;
+}
+try {
+    const store = await loadClientKeys(CUSTOM_ACCESS_KEY, CLIENT_KEYS_FILE, SUPPORTED_MODELS_MAP);
+    replaceMapContents(CLIENT_KEYS, store.clientKeys);
+    replaceMapContents(TENANT_RATE_LIMITS, store.tenantRateLimits);
+    replaceMapContents(TENANT_CONTENT_POLICIES, store.tenantContentPolicies);
+} catch (error) {
+    log.error(`FATAL: Failed to load CLIENT_KEYS_FILE '${CLIENT_KEYS_FILE}': ${error instanceof Error ? error.message : error}`);
+    Deno.exit(1);
+}
+log.info(`Loaded ${CLIENT_KEYS.size} client keys for ${new Set(Array.from(CLIENT_KEYS.values()).map(c => c.tenant)).size} tenants`);
 
 
+// --- Metrics ---
+// A minimal Prometheus registry. Counters and histograms are updated in place; gauges are
+// collected from live state when /metrics is scraped.
+type MetricLabels = Record<string, string>;
+interface MetricSeries { labels: MetricLabels; value: number; bucketCounts?: number[]; sum?: number; }
+interface MetricFamily { name: string; help: string; type: 'counter' | 'gauge' | 'histogram'; buckets?: number[]; series: Map<string, MetricSeries>; collect?: () => { labels: MetricLabels; value: number }[]; }
+const metricFamilies = new Map<string, MetricFamily>();
+const METRICS_TOKEN = Deno.env.get("METRICS_TOKEN");
+const LATENCY_BUCKETS = [0.1, 0.25, 0.5, 1, 2.5, 5, 10, 20, 30, 60, 120, 300];
+
+function defineMetric(name: string, type: MetricFamily['type'], help: string, options: { buckets?: number[]; collect?: MetricFamily['collect'] } = {}) {
+    metricFamilies.set(name, { name, help, type, buckets: options.buckets, collect: options.collect, series: new Map() });
+}
+function getMetricSeries(name: string, labels: MetricLabels): MetricSeries {
+    const family = metricFamilies.get(name);
+    if (!family) throw new Error(`Unknown metric '${name}'.`);
+    const seriesKey = JSON.stringify(Object.entries(labels).sort());
+    let series = family.series.get(seriesKey);
+    if (!series) { series = { labels, value: 0, ...(family.type === 'histogram' ? { bucketCounts: family.buckets!.map(() => 0), sum: 0 } : {}) }; family.series.set(seriesKey, series); }
+    return series;
+}
+function incrementCounter(name: string, labels: MetricLabels = {}, amount = 1) { getMetricSeries(name, labels).value += amount; }
+function observeHistogram(name: string, labels: MetricLabels, value: number) {
+    const series = getMetricSeries(name, labels);
+    const buckets = metricFamilies.get(name)!.buckets!;
+    buckets.forEach((bound, i) => { if (value <= bound) series.bucketCounts![i]++; });
+    series.value++;
+    series.sum! += value;
+}
+function formatMetricLabels(labels: MetricLabels): string {
+    const entries = Object.entries(labels);
+    if (entries.length === 0) return '';
+    return `{${entries.map(([k, v]) => `${k}="${String(v).replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`).join(',')}}`;
+}
+function renderMetrics(): string {
+    const lines: string[] = [];
+    for (const family of metricFamilies.values()) {
+        lines.push(`# HELP ${family.name} ${family.help}`, `# TYPE ${family.name} ${family.type}`);
+        if (family.collect) { for (const { labels, value } of family.collect()) lines.push(`${family.name}${formatMetricLabels(labels)} ${value}`); continue; }
+        for (const series of family.series.values()) {
+            if (family.type !== 'histogram') { lines.push(`${family.name}${formatMetricLabels(series.labels)} ${series.value}`); continue; }
+            family.buckets!.forEach((bound, i) => lines.push(`${family.name}_bucket${formatMetricLabels({ ...series.labels, le: String(bound) })} ${series.bucketCounts![i]}`));
+            lines.push(`${family.name}_bucket${formatMetricLabels({ ...series.labels, le: '+Inf' })} ${series.value}`);
+            lines.push(`${family.name}_sum${formatMetricLabels(series.labels)} ${series.sum}`, `${family.name}_count${formatMetricLabels(series.labels)} ${series.value}`);
+        }
+    }
+    return lines.join('\n') + '\n';
+}
+
+defineMetric('falproxy_http_requests_total', 'counter', 'HTTP requests handled by the proxy, by route, method, status and model.');
+defineMetric('falproxy_http_request_duration_seconds', 'histogram', 'Time to produce an HTTP response, by route.', { buckets: LATENCY_BUCKETS });
+defineMetric('falproxy_generation_phase_duration_seconds', 'histogram', 'Fal generation latency split into submit, queue and inference phases, by endpoint.', { buckets: LATENCY_BUCKETS });
+defineMetric('falproxy_poll_attempts_total', 'counter', 'Status polls sent to the Fal queue, by endpoint.');
+defineMetric('falproxy_schema_cache_total', 'counter', 'Model config lookups in getModelConfig, by result (hit, miss, stale, error, restored).');
+defineMetric('falproxy_fal_key_errors_total', 'counter', 'Errors attributed to a Fal key, by masked key and status.');
+defineMetric('falproxy_config_reloads_total', 'counter', 'Configuration reload attempts, by result (applied, rejected).');
+defineMetric('falproxy_fal_retries_total', 'counter', 'Retried Fal calls after a 5xx, 429 or network error, by endpoint and phase (submit, status, result).');
+defineMetric('falproxy_fal_circuit_opens_total', 'counter', 'Times the circuit breaker for a Fal endpoint opened, by endpoint.');
+defineMetric('falproxy_content_policy_actions_total', 'counter', 'Content policy interventions, by tenant and action (blocked_prompt, blurred, dropped, rejected).');
+defineMetric('falproxy_fal_webhooks_total', 'counter', 'Fal webhook callbacks received, by result (accepted, rejected, ignored).');
+
 // --- Dynamic Model Configuration & Caching ---
 // MODIFIED: ModelConfig is simpler now, no need for status_base_url
 interface ModelConfig {
+    endpoint_id: string;
     submit_url: string;
     supports_size_param: boolean;
     supports_aspect_ratio_param: boolean;
     uses_image_size_object: boolean;
+    supports_image_url_param: boolean;
+    supports_mask_url_param: boolean;
+    // The model's full input schema with `$ref`s inlined, used to validate payloads before submission.
+    input_schema: any;
 }
-interface CachedModelConfig extends ModelConfig { fetchedAt: number; }
+// `fetchedAt` is when the schema was fetched from fal.ai (0 for bundled schemas); `nextRetryAt` is set
+// after a failed refresh.
+interface CachedModelConfig extends ModelConfig { fetchedAt: number; nextRetryAt?: number; }
 const modelConfigCache = new Map<string, CachedModelConfig>();
 const CACHE_TTL_MS = 24 * 60 * 60 * 1000;
+// After a failed refresh, a stale config is kept for this long before Fal is asked again.
+const CACHE_RETRY_MS = 5 * 60 * 1000;
+const SCHEMA_FETCH_TIMEOUT_MS = 10 * 1000;
+
+// Inlines `#/components/schemas/...` references. Recursive schemas are cut off at a fixed depth.
+function resolveSchemaRefs(node: any, components: Record<string, any>, depth = 0): any {
+    if (depth > 10 || node === null || typeof node !== 'object') return node;
+    if (Array.isArray(node)) return node.map(item => resolveSchemaRefs(item, components, depth + 1));
+    if (typeof node.$ref === 'string') {
+        const { $ref, ...siblings } = node;
+        const target = components[$ref.split('/').pop()];
+        return target ? resolveSchemaRefs({ ...target, ...siblings }, components, depth + 1) : node;
+    }
+    return Object.fromEntries(Object.entries(node).map(([key, value]) => [key, resolveSchemaRefs(value, components, depth + 1)]));
+}
 
-async function fetchAndParseModelSchema(endpointId: string): Promise<ModelConfig> {
+async function fetchModelSchema(endpointId: string): Promise<any> {
     const openApiUrl = `https://fal.ai/api/openapi/queue/openapi.json?endpoint_id=${endpointId}`;
-    debugLog(`[Schema Fetch] Fetching for ${endpointId}`);
-    const response = await fetch(openApiUrl);
+    log.debug(`[Schema Fetch] Fetching for ${endpointId}`);
+    const response = await fetch(openApiUrl, { signal: AbortSignal.timeout(SCHEMA_FETCH_TIMEOUT_MS) });
     if (!response.ok) throw new Error(`Failed to fetch OpenAPI schema for ${endpointId}: ${response.status} ${response.statusText}`);
-    
-    // (Schema parsing logic is largely the same, but simpler)
-    const schema = await response.json();
+    return await response.json();
+}
+
+function parseModelSchema(endpointId: string, schema: any): ModelConfig {
     const postPathKey = `/${endpointId}`;
     const postPath = schema.paths?.[postPathKey]?.post;
     if (!postPath) throw new Error(`Could not find POST path '${postPathKey}' in schema.`);
@@ -89,170 +416,1964 @@ async function fetchAndParseModelSchema(endpointId: string): Promise<ModelConfig
     }
     
     const config: ModelConfig = {
+        endpoint_id: endpointId,
         submit_url: `https://queue.fal.run/${endpointId}`,
         supports_size_param,
         supports_aspect_ratio_param,
         uses_image_size_object,
+        supports_image_url_param: 'image_url' in properties,
+        supports_mask_url_param: 'mask_url' in properties,
+        input_schema: resolveSchemaRefs(inputSchema, schema.components?.schemas || {}),
     };
-    debugLog(`[Schema Parse] Successfully parsed config for ${endpointId}:`, config);
+    log.debug(`[Schema Parse] Successfully parsed config for ${endpointId}`, { config: { ...config, input_schema: `<${Object.keys(properties).length} properties>` } });
     return config;
 }
 
+// --- Persistent Schema Cache ---
+// Fetched OpenAPI documents are written to SCHEMA_CACHE_DIR (one `{ endpoint_id, fetched_at, openapi }`
+// file per endpoint) so restarts do not depend on fal.ai being reachable. SCHEMA_BUNDLE_FILE is a
+// read-only `{ "<endpoint_id>": <OpenAPI document> }` map shipped with the deployment; its entries
+// count as stale, so they are used until a refresh from fal.ai succeeds.
+interface PersistedSchema { fetchedAt: number; openapi: any; }
+const schemaBundle = new Map<string, PersistedSchema>();
+
+function schemaCachePath(endpointId: string): string { return `${SCHEMA_CACHE_DIR}/${endpointId.replace(/[^A-Za-z0-9._-]/g, '_')}.json`; }
+
+async function loadSchemaBundle() {
+    if (!SCHEMA_BUNDLE_FILE) return;
+    const bundle = JSON.parse(await Deno.readTextFile(SCHEMA_BUNDLE_FILE));
+    if (!bundle || typeof bundle !== 'object' || Array.isArray(bundle)) throw new Error(`${SCHEMA_BUNDLE_FILE} must be a JSON object mapping endpoint IDs to OpenAPI documents.`);
+    for (const [endpointId, openapi] of Object.entries(bundle)) schemaBundle.set(endpointId, { fetchedAt: 0, openapi });
+}
+
+async function readPersistedSchema(endpointId: string): Promise<PersistedSchema | undefined> {
+    if (!SCHEMA_CACHE_DIR) return schemaBundle.get(endpointId);
+    try {
+        const entry = JSON.parse(await Deno.readTextFile(schemaCachePath(endpointId)));
+        if (entry?.endpoint_id === endpointId && typeof entry.fetched_at === 'number' && entry.openapi) return { fetchedAt: entry.fetched_at, openapi: entry.openapi };
+        log.warn(`[Schema Cache] Ignoring malformed cache file ${schemaCachePath(endpointId)}`);
+    } catch (error) {
+        if (!(error instanceof Deno.errors.NotFound)) log.warn(`[Schema Cache] Failed to read ${schemaCachePath(endpointId)}`, { error });
+    }
+    return schemaBundle.get(endpointId);
+}
+
+async function persistSchema(endpointId: string, openapi: any, fetchedAt: number) {
+    if (!SCHEMA_CACHE_DIR) return;
+    const path = schemaCachePath(endpointId);
+    try {
+        await Deno.mkdir(SCHEMA_CACHE_DIR, { recursive: true });
+        await Deno.writeTextFile(`${path}.tmp`, JSON.stringify({ endpoint_id: endpointId, fetched_at: fetchedAt, openapi }));
+        await Deno.rename(`${path}.tmp`, path);
+    } catch (error) {
+        log.warn(`[Schema Cache] Failed to write ${path}`, { error });
+    }
+}
+
+// Fills the in-memory cache for `modelName` from disk or the bundle, if either has its endpoint.
+async function restoreModelConfig(modelName: string, endpointId: string): Promise<CachedModelConfig | undefined> {
+    const persisted = await readPersistedSchema(endpointId);
+    if (!persisted) return undefined;
+    try {
+        const restored = { ...parseModelSchema(endpointId, persisted.openapi), fetchedAt: persisted.fetchedAt };
+        modelConfigCache.set(modelName, restored);
+        incrementCounter('falproxy_schema_cache_total', { model: modelName, result: 'restored' });
+        return restored;
+    } catch (error) {
+        log.warn(`[Schema Cache] Persisted schema for ${endpointId} could not be parsed`, { error });
+        return undefined;
+    }
+}
+
+// Fetches the schema from fal.ai and replaces the cached config. Throws if it cannot be fetched or parsed.
+async function refreshModelConfig(modelName: string, endpointId: string): Promise<CachedModelConfig> {
+    const openapi = await fetchModelSchema(endpointId);
+    const refreshed = { ...parseModelSchema(endpointId, openapi), fetchedAt: Date.now() };
+    modelConfigCache.set(modelName, refreshed);
+    await persistSchema(endpointId, openapi, refreshed.fetchedAt);
+    return refreshed;
+}
+
+// Refreshes are shared, so concurrent lookups of a model fetch its schema once. A failed refresh
+// resolves to null and holds off the next attempt on `cached` for CACHE_RETRY_MS.
+const modelConfigRefreshes = new Map<string, Promise<CachedModelConfig | null>>();
+function refreshModelConfigOnce(modelName: string, endpointId: string, cached?: CachedModelConfig): Promise<CachedModelConfig | null> {
+    let refresh = modelConfigRefreshes.get(modelName);
+    if (refresh) return refresh;
+    refresh = refreshModelConfig(modelName, endpointId).catch(error => {
+        log.error(`[Config Error] Failed to get model config for '${modelName}'`, { error });
+        incrementCounter('falproxy_schema_cache_total', { model: modelName, result: 'error' });
+        if (cached) cached.nextRetryAt = Date.now() + CACHE_RETRY_MS;
+        return null;
+    }).finally(() => modelConfigRefreshes.delete(modelName));
+    modelConfigRefreshes.set(modelName, refresh);
+    return refresh;
+}
+
+// A stale config is served at once and refreshed in the background, so requests never wait on
+// fal.ai while any schema is cached. Only a model with no schema at all is fetched in the request.
 async function getModelConfig(modelName: string): Promise<ModelConfig | null> {
-    const endpointId = SUPPORTED_MODELS_MAP.get(modelName);
+    const endpointId = SUPPORTED_MODELS_MAP.get(modelName)?.endpoint;
     if (!endpointId) return null;
-    const cached = modelConfigCache.get(modelName);
+    const cached = modelConfigCache.get(modelName) ?? await restoreModelConfig(modelName, endpointId);
     if (cached && (Date.now() - cached.fetchedAt < CACHE_TTL_MS)) {
-        debugLog(`[Cache HIT] Using cached config for ${modelName}`);
+        log.debug(`[Cache HIT] Using cached config for ${modelName}`);
+        incrementCounter('falproxy_schema_cache_total', { model: modelName, result: 'hit' });
         return cached;
     }
-    debugLog(`[Cache MISS] Fetching new config for ${modelName}`);
-    try {
-        const newConfig = await fetchAndParseModelSchema(endpointId);
-        modelConfigCache.set(modelName, { ...newConfig, fetchedAt: Date.now() });
-        return newConfig;
-    } catch (error) {
-        console.error(`[Config Error] Failed to get model config for '${modelName}':`, error);
-        if (cached) {
-            console.warn(`[Config Warning] Serving stale cache for ${modelName} due to fetch failure.`);
-            return cached;
+    if (cached) {
+        log.debug(`[Cache STALE] Using stale config for ${modelName} while it is refreshed`);
+        incrementCounter('falproxy_schema_cache_total', { model: modelName, result: 'stale' });
+        if ((cached.nextRetryAt ?? 0) <= Date.now()) refreshModelConfigOnce(modelName, endpointId, cached);
+        return cached;
+    }
+    log.debug(`[Cache MISS] Fetching new config for ${modelName}`);
+    incrementCounter('falproxy_schema_cache_total', { model: modelName, result: 'miss' });
+    return await refreshModelConfigOnce(modelName, endpointId);
+}
+
+// --- Fal Key Pool ---
+// Tracks the health of every Fal key. Keys that fail with auth or quota errors are put on a
+// cooldown and skipped by `selectApiKey` until it expires; repeated failures double the cooldown.
+type KeyStrategy = 'random' | 'round_robin' | 'weighted';
+interface FalKeyState { key: string; weight: number; requests: number; errors: number; consecutiveFailures: number; cooldownUntil: number; lastError?: string; }
+const AI_KEY_STRATEGY = (Deno.env.get("AI_KEY_STRATEGY") || 'random').toLowerCase() as KeyStrategy;
+if (!['random', 'round_robin', 'weighted'].includes(AI_KEY_STRATEGY)) { log.error(`FATAL: AI_KEY_STRATEGY must be one of random, round_robin, weighted (got '${AI_KEY_STRATEGY}').`); Deno.exit(1); }
+const AI_KEY_COOLDOWN_MS = parseInt(Deno.env.get("AI_KEY_COOLDOWN_MS") || "60000");
+if (!Number.isInteger(AI_KEY_COOLDOWN_MS) || AI_KEY_COOLDOWN_MS < 1) { log.error("FATAL: AI_KEY_COOLDOWN_MS must be a positive integer."); Deno.exit(1); }
+const AI_KEY_MAX_COOLDOWN_MS = 60 * 60 * 1000;
+const falKeyPool: FalKeyState[] = [];
+let roundRobinIndex = 0;
+
+function parseAiKeys(aiKeysRaw: string, aiKeyWeightsRaw: string): { key: string; weight: number }[] {
+    const keys = aiKeysRaw.split(',').map(key => key.trim()).filter(key => key.length > 0);
+    if (keys.length === 0) throw new Error("AI_KEYS contains no valid keys.");
+    const weights = aiKeyWeightsRaw.split(',').map(w => w.trim()).filter(w => w.length > 0).map(w => parseFloat(w));
+    if (weights.some(w => isNaN(w) || w < 0)) throw new Error("AI_KEY_WEIGHTS must be a comma-separated list of non-negative numbers.");
+    return keys.map((key, i) => ({ key, weight: weights[i] ?? 1 }));
+}
+// Keys that remain configured keep their counters and any cooldown they are serving.
+function replaceFalKeyPool(entries: { key: string; weight: number }[]) {
+    const previous = new Map(falKeyPool.map(state => [state.key, state]));
+    const next = entries.map(({ key, weight }) => Object.assign(previous.get(key) ?? { key, requests: 0, errors: 0, consecutiveFailures: 0, cooldownUntil: 0 }, { weight }));
+    falKeyPool.splice(0, falKeyPool.length, ...next);
+    roundRobinIndex = 0;
+}
+try { replaceFalKeyPool(parseAiKeys(AI_KEYS_RAW, AI_KEY_WEIGHTS_RAW || '')); }
+catch (error) { log.error(`FATAL: ${error instanceof Error ? error.message : error}`); Deno.exit(1); }
+
+function maskApiKey(key: string): string { return key.length <= 8 ? '****' : `${key.slice(0, 4)}…${key.slice(-4)}`; }
+function isKeyFailoverStatus(status: number): boolean { return status === Status.Unauthorized || status === Status.Forbidden || status === Status.TooManyRequests; }
+
+// Picks a key that is not cooling down and not in `exclude`. If every candidate is cooling down,
+// the one whose cooldown ends first is used rather than failing the request outright.
+function selectApiKey(exclude: Set<string> = new Set()): string {
+    const now = Date.now();
+    const candidates = falKeyPool.filter(state => !exclude.has(state.key));
+    const pool = candidates.length > 0 ? candidates : falKeyPool;
+    const healthy = pool.filter(state => state.cooldownUntil <= now);
+    if (healthy.length === 0) return pool.reduce((a, b) => a.cooldownUntil <= b.cooldownUntil ? a : b).key;
+    if (AI_KEY_STRATEGY === 'round_robin') {
+        for (let i = 0; i < falKeyPool.length; i++) {
+            const state = falKeyPool[(roundRobinIndex + i) % falKeyPool.length];
+            if (healthy.includes(state)) { roundRobinIndex = (falKeyPool.indexOf(state) + 1) % falKeyPool.length; return state.key; }
         }
-        return null;
+    }
+    if (AI_KEY_STRATEGY === 'weighted') {
+        const totalWeight = healthy.reduce((sum, state) => sum + state.weight, 0);
+        let pick = Math.random() * totalWeight;
+        for (const state of healthy) { pick -= state.weight; if (pick < 0) return state.key; }
+    }
+    return healthy[Math.floor(Math.random() * healthy.length)].key;
+}
+
+function reportKeySuccess(key: string) {
+    const state = falKeyPool.find(s => s.key === key);
+    if (!state) return;
+    state.requests++;
+    state.consecutiveFailures = 0;
+}
+
+function reportKeyFailure(key: string, status: number | null, reason: string, retryAfterHeader?: string | null) {
+    const state = falKeyPool.find(s => s.key === key);
+    if (!state) return;
+    state.requests++;
+    state.errors++;
+    state.consecutiveFailures++;
+    state.lastError = reason;
+    incrementCounter('falproxy_fal_key_errors_total', { key: maskApiKey(key), status: status === null ? 'network' : String(status) });
+    let cooldownMs = 0;
+    if (status === Status.TooManyRequests) cooldownMs = retryAfterHeader && !isNaN(parseInt(retryAfterHeader)) ? parseInt(retryAfterHeader) * 1000 : AI_KEY_COOLDOWN_MS;
+    else if (status === Status.Unauthorized || status === Status.Forbidden) cooldownMs = AI_KEY_COOLDOWN_MS * 10;
+    else if (state.consecutiveFailures >= 3) cooldownMs = AI_KEY_COOLDOWN_MS;
+    if (cooldownMs > 0) {
+        cooldownMs = Math.min(AI_KEY_MAX_COOLDOWN_MS, cooldownMs * 2 ** Math.min(10, Math.max(0, state.consecutiveFailures - 1)));
+        state.cooldownUntil = Date.now() + cooldownMs;
+        log.warn(`[Key Pool] Key ${maskApiKey(key)} removed from rotation for ${Math.round(cooldownMs / 1000)}s after ${reason}`);
     }
 }
 
 // --- Helper Functions ---
-function getRandomApiKey(): string { const randomIndex = Math.floor(Math.random() * AI_KEYS.length); return AI_KEYS[randomIndex]; }
-interface AuthResult { valid: boolean; userKey?: string; apiKey?: string; error?: string; }
-function extractAndValidateApiKey(request: Request): AuthResult { const authHeader = request.headers.get('Authorization') || ''; let userKey: string | undefined; if (authHeader.startsWith('Bearer ')) userKey = authHeader.substring(7); else if (authHeader.startsWith('Key ')) userKey = authHeader.substring(4); else userKey = authHeader; if (!userKey) return { valid: false, userKey, error: "Authorization header missing or empty." }; if (userKey !== CUSTOM_ACCESS_KEY) { console.log(`Authentication failed: Invalid user key provided.`); return { valid: false, userKey: "provided_but_invalid", error: "Invalid API key." }; } const randomApiKey = getRandomApiKey(); return { valid: true, userKey, apiKey: randomApiKey }; }
+interface AuthResult { valid: boolean; userKey?: string; client?: ClientKey; error?: string; }
+// Per-request details gathered by the handlers and read back by the main handler for logging,
+// metrics and response headers.
+interface RequestContext { tenant?: string; model?: string; rateLimitHeaders?: Record<string, string>; }
+const requestContexts = new WeakMap<Request, RequestContext>();
+function getRequestContext(request: Request): RequestContext {
+    let context = requestContexts.get(request);
+    if (!context) { context = {}; requestContexts.set(request, context); }
+    return context;
+}
+async function extractAndValidateApiKey(request: Request): Promise<AuthResult> {
+    const authHeader = request.headers.get('Authorization') || ''; let userKey: string | undefined; if (authHeader.startsWith('Bearer ')) userKey = authHeader.substring(7); else if (authHeader.startsWith('Key ')) userKey = authHeader.substring(4); else userKey = authHeader;
+    if (!userKey) return { valid: false, userKey, error: "Authorization header missing or empty." };
+    const client = CLIENT_KEYS.get(await sha256Hex(userKey));
+    if (!client) { log.info(`Authentication failed: Invalid user key provided.`); return { valid: false, userKey: "provided_but_invalid", error: "Invalid API key." }; }
+    if (!client.enabled) { log.info(`Authentication failed: Key for tenant '${client.tenant}' is disabled.`); return { valid: false, userKey: "provided_but_disabled", error: "API key is disabled." }; }
+    getRequestContext(request).tenant = client.tenant;
+    return { valid: true, userKey, client };
+}
+function isModelAllowed(client: ClientKey, modelName: string): boolean { return client.allowedModels === null || client.allowedModels.includes(modelName); }
+function isSizeAllowed(definition: ModelDefinition, requestedSize?: string): boolean { return !requestedSize || definition.allowedSizes === null || definition.allowedSizes.includes(String(requestedSize).toLowerCase()); }
 function parseSize(sizeString?: string): { width: number; height: number } | null { if (!sizeString || typeof sizeString !== 'string') return null; const parts = sizeString.toLowerCase().split('x'); if (parts.length === 2) { const width = parseInt(parts[0], 10); const height = parseInt(parts[1], 10); if (!isNaN(width) && !isNaN(height) && width > 0 && height > 0) return { width, height }; } return null; }
 function gcd(a: number, b: number): number { while (b) { [a, b] = [b, a % b]; } return a; }
 function calculateAspectRatio(width: number, height: number): string { if (!width || !height || width <= 0 || height <= 0) return "1:1"; const divisor = gcd(width, height); return `${width / divisor}:${height / divisor}`; }
 
+// --- Rate Limiting ---
+// Token buckets for requests/minute and images/day plus an in-flight counter, tracked separately
+// for each client key and for each tenant. A request must fit within every scope that applies.
+interface TokenBucket { tokens: number; updatedAt: number; }
+interface RateLimitState { requests: TokenBucket; images: TokenBucket; inFlight: number; }
+interface RateLimitScope { id: string; limits: RateLimits; }
+interface RateLimitOutcome { release: () => void; errorResponse?: Response; }
+const rateLimitStates = new Map<string, RateLimitState>();
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function refillBucket(bucket: TokenBucket, capacity: number, windowMs: number, now: number) {
+    bucket.tokens = Math.min(capacity, bucket.tokens + (now - bucket.updatedAt) * capacity / windowMs);
+    bucket.updatedAt = now;
+}
+function msUntilTokens(bucket: TokenBucket, needed: number, capacity: number, windowMs: number): number { return Math.max(0, Math.ceil((needed - bucket.tokens) * windowMs / capacity)); }
+function formatResetDuration(ms: number): string { if (ms >= 60 * MINUTE_MS) return `${Math.ceil(ms / (60 * MINUTE_MS))}h`; return ms >= MINUTE_MS ? `${Math.ceil(ms / MINUTE_MS)}m` : `${Math.ceil(ms / 1000)}s`; }
+
+function acquireRateLimit(request: Request, client: ClientKey, imageCount: number): RateLimitOutcome {
+    const scopes: RateLimitScope[] = [{ id: `key:${client.keyHash}`, limits: client.rateLimits ?? DEFAULT_RATE_LIMITS }];
+    const tenantLimits = TENANT_RATE_LIMITS.get(client.tenant);
+    if (tenantLimits) scopes.push({ id: `tenant:${client.tenant}`, limits: tenantLimits });
+    const now = Date.now();
+    let retryAfterMs = 0;
+    let rejection: string | undefined;
+
+    const states = scopes.map(({ id, limits }) => {
+        let state = rateLimitStates.get(id);
+        if (!state) { state = { requests: { tokens: limits.requests_per_minute ?? 0, updatedAt: now }, images: { tokens: limits.images_per_day ?? 0, updatedAt: now }, inFlight: 0 }; rateLimitStates.set(id, state); }
+        if (limits.requests_per_minute) refillBucket(state.requests, limits.requests_per_minute, MINUTE_MS, now);
+        if (limits.images_per_day) refillBucket(state.images, limits.images_per_day, DAY_MS, now);
+        return state;
+    });
+    scopes.forEach(({ limits }, i) => {
+        const state = states[i];
+        if (limits.requests_per_minute && state.requests.tokens < 1) {
+            rejection ??= `Rate limit reached: ${limits.requests_per_minute} requests per minute.`;
+            retryAfterMs = Math.max(retryAfterMs, msUntilTokens(state.requests, 1, limits.requests_per_minute, MINUTE_MS));
+        }
+        if (limits.images_per_day && imageCount > limits.images_per_day) {
+            rejection ??= `Requested ${imageCount} images, which exceeds the limit of ${limits.images_per_day} images per day.`;
+            retryAfterMs = Math.max(retryAfterMs, DAY_MS);
+        } else if (limits.images_per_day && state.images.tokens < imageCount) {
+            rejection ??= `Rate limit reached: ${limits.images_per_day} images per day.`;
+            retryAfterMs = Math.max(retryAfterMs, msUntilTokens(state.images, imageCount, limits.images_per_day, DAY_MS));
+        }
+        if (limits.max_concurrent && state.inFlight >= limits.max_concurrent) {
+            rejection ??= `Concurrency limit reached: ${limits.max_concurrent} generations in flight.`;
+            retryAfterMs = Math.max(retryAfterMs, 1000);
+        }
+    });
+    if (!rejection) {
+        scopes.forEach(({ limits }, i) => {
+            if (limits.requests_per_minute) states[i].requests.tokens -= 1;
+            if (limits.images_per_day) states[i].images.tokens -= imageCount;
+            states[i].inFlight++;
+        });
+    }
+
+    // Report the most restrictive scope for each limit.
+    const headers: Record<string, string> = {};
+    scopes.forEach(({ limits }, i) => {
+        for (const [name, capacity, bucket, windowMs] of [['requests', limits.requests_per_minute, states[i].requests, MINUTE_MS], ['images', limits.images_per_day, states[i].images, DAY_MS]] as const) {
+            if (!capacity) continue;
+            const remaining = Math.max(0, Math.floor(bucket.tokens));
+            if (headers[`x-ratelimit-remaining-${name}`] !== undefined && remaining >= Number(headers[`x-ratelimit-remaining-${name}`])) continue;
+            headers[`x-ratelimit-limit-${name}`] = String(capacity);
+            headers[`x-ratelimit-remaining-${name}`] = String(remaining);
+            headers[`x-ratelimit-reset-${name}`] = formatResetDuration(msUntilTokens(bucket, capacity, capacity, windowMs));
+        }
+    });
+    getRequestContext(request).rateLimitHeaders = headers;
+
+    if (rejection) {
+        log.info(`[Rate Limit] Rejected request for tenant '${client.tenant}': ${rejection}`);
+        return { release: () => {}, errorResponse: openAIErrorResponse(Status.TooManyRequests, { message: rejection, type: "rate_limit_exceeded", code: "rate_limit_exceeded" }, { 'Retry-After': String(Math.max(1, Math.ceil(retryAfterMs / 1000))) }) };
+    }
+    let released = false;
+    return { release: () => { if (released) return; released = true; states.forEach(state => state.inFlight--); } };
+}
+
 // --- CORS Configuration ---
-const CORS_HEADERS = { 'Access-Control-Allow-Origin': '*', 'Access-Control-Allow-Methods': 'GET, POST, OPTIONS', 'Access-Control-Allow-Headers': 'Content-Type, Authorization', };
+const CORS_HEADERS = { 'Access-Control-Allow-Origin': '*', 'Access-Control-Allow-Methods': 'GET, POST, DELETE, OPTIONS', 'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Request-Id', 'Access-Control-Expose-Headers': 'X-Request-Id, X-Tenant-Name, Retry-After, x-ratelimit-limit-requests, x-ratelimit-remaining-requests, x-ratelimit-reset-requests, x-ratelimit-limit-images, x-ratelimit-remaining-images, x-ratelimit-reset-images', };
 
-// --- Endpoint Handlers ---
-async function handleImageGenerations(request: Request): Promise<Response> {
-    debugLog("--- New Image Generation Request ---");
-    const authResult = extractAndValidateApiKey(request);
-    if (!authResult.valid || !authResult.apiKey) return new Response(JSON.stringify({ error: { message: authResult.error || "Authentication failed.", type: "authentication_error" } }), { status: Status.Unauthorized });
-    const { apiKey } = authResult;
-    let openaiRequestPayload;
-    try { openaiRequestPayload = await request.json(); debugLog("Parsed OpenAI Request Payload:", openaiRequestPayload); }
-    catch (error) { return new Response(JSON.stringify({ error: { message: "Missing or invalid JSON request body.", type: "invalid_request_error" } }), { status: Status.BadRequest }); }
-    
-    const { prompt, model: requestedModel, n: requestedN, size: requestedSize, seed: requestedSeed } = openaiRequestPayload;
-    const modelName = requestedModel || "flux-dev";
-    const numImages = Math.max(1, Math.min(4, parseInt(requestedN) || 1));
-    if (!prompt || typeof prompt !== 'string' || prompt.trim() === "") return new Response(JSON.stringify({ error: { message: "A 'prompt' is required.", type: "invalid_request_error" } }), { status: Status.BadRequest });
+// --- Size Mapping ---
+// Translates an OpenAI `size` into what the model's schema accepts: explicit dimensions rounded to the
+// required multiple and scaled into the schema's limits, otherwise the closest `image_size` preset,
+// plus the closest `aspect_ratio` enum value. Closeness is judged by aspect ratio first, then area.
+const FAL_IMAGE_SIZE_PRESETS: Record<string, { width: number; height: number }> = {
+    square_hd: { width: 1024, height: 1024 }, square: { width: 512, height: 512 },
+    portrait_4_3: { width: 768, height: 1024 }, portrait_16_9: { width: 576, height: 1024 },
+    landscape_4_3: { width: 1024, height: 768 }, landscape_16_9: { width: 1024, height: 576 },
+};
+// Dimensions are rounded to this multiple unless the schema or the model catalog's `size_multiple` says otherwise.
+const DEFAULT_SIZE_MULTIPLE = 8;
+interface DimensionLimits { min: number; max: number; multiple: number; }
+
+function schemaOptions(propertySchema: any): any[] { return propertySchema ? (propertySchema.anyOf || propertySchema.oneOf || [propertySchema]) : []; }
+function shapeDistance(a: { width: number; height: number }, b: { width: number; height: number }): [number, number] { return [Math.abs(Math.log((a.width / a.height) / (b.width / b.height))), Math.abs(Math.log((a.width * a.height) / (b.width * b.height)))]; }
+function closestBy<T>(candidates: T[], distance: (candidate: T) => [number, number]): T | undefined {
+    let best: T | undefined, bestDistance: [number, number] = [Infinity, Infinity];
+    for (const candidate of candidates) {
+        const d = distance(candidate);
+        if (d[0] < bestDistance[0] - 1e-9 || (Math.abs(d[0] - bestDistance[0]) <= 1e-9 && d[1] < bestDistance[1])) { best = candidate; bestDistance = d; }
+    }
+    return best;
+}
+
+function dimensionLimits(widthSchema: any, heightSchema: any, sizeMultiple: number | null): DimensionLimits {
+    const min = Math.max(widthSchema?.minimum ?? 1, heightSchema?.minimum ?? 1);
+    const max = Math.min(widthSchema?.maximum ?? Infinity, heightSchema?.maximum ?? Infinity);
+    return { min, max, multiple: sizeMultiple ?? widthSchema?.multipleOf ?? DEFAULT_SIZE_MULTIPLE };
+}
+// Scales the requested shape into the limits, keeping its aspect ratio where the limits allow, and rounds to the multiple.
+function fitDimensions(width: number, height: number, limits: DimensionLimits): { width: number; height: number } {
+    let scale = 1;
+    if (Math.max(width, height) > limits.max) scale = limits.max / Math.max(width, height);
+    if (Math.min(width, height) * scale < limits.min) scale = limits.min / Math.min(width, height);
+    const lowest = Math.ceil(limits.min / limits.multiple) * limits.multiple;
+    const highest = Number.isFinite(limits.max) ? Math.max(lowest, Math.floor(limits.max / limits.multiple) * limits.multiple) : Infinity;
+    const snap = (value: number) => Math.min(highest, Math.max(lowest, Math.round(value * scale / limits.multiple) * limits.multiple));
+    return { width: snap(width), height: snap(height) };
+}
+
+function closestAspectRatio(aspectRatioSchema: any, width: number, height: number): string {
+    const enumValues: string[] = schemaOptions(aspectRatioSchema).flatMap((option: any) => Array.isArray(option.enum) ? option.enum : []);
+    const ratios = enumValues.map(value => ({ value, parts: String(value).split(':').map(Number) })).filter(({ parts }) => parts.length === 2 && parts[0] > 0 && parts[1] > 0);
+    if (ratios.length === 0) return calculateAspectRatio(width, height);
+    return closestBy(ratios, ({ parts }) => shapeDistance({ width: parts[0], height: parts[1] }, { width, height }))!.value;
+}
+
+// Returns the size the payload asks Fal for as "WIDTHxHEIGHT", or null when only an aspect ratio is set.
+function payloadImageSize(falRequestPayload: Record<string, any>): string | null {
+    const imageSize = falRequestPayload.image_size;
+    if (imageSize && typeof imageSize === 'object' && imageSize.width && imageSize.height) return `${imageSize.width}x${imageSize.height}`;
+    if (typeof imageSize === 'string' && FAL_IMAGE_SIZE_PRESETS[imageSize]) return `${FAL_IMAGE_SIZE_PRESETS[imageSize].width}x${FAL_IMAGE_SIZE_PRESETS[imageSize].height}`;
+    if (Number.isInteger(falRequestPayload.width) && Number.isInteger(falRequestPayload.height)) return `${falRequestPayload.width}x${falRequestPayload.height}`;
+    return null;
+}
+// Fal reports the dimensions it actually produced; fall back to what was requested when it does not.
+function resultImageSize(resultData: any, fallback: string | null): string | null {
+    const image = Array.isArray(resultData?.images) ? resultData.images[0] : resultData?.image;
+    return Number.isInteger(image?.width) && Number.isInteger(image?.height) ? `${image.width}x${image.height}` : fallback;
+}
+
+function applySizeToPayload(falRequestPayload: Record<string, any>, modelConfig: ModelConfig, requestedSize: string | undefined, sizeMultiple: number | null) {
+    const requested = parseSize(requestedSize);
+    if (!requested) return;
+    const properties = modelConfig.input_schema.properties;
+    const imageSizeOptions = schemaOptions(properties.image_size);
+    const sizeObjectSchema = imageSizeOptions.find((option: any) => option.properties?.width && option.properties?.height);
+    const presetNames: string[] = imageSizeOptions.flatMap((option: any) => Array.isArray(option.enum) ? option.enum : []).filter((name: string) => FAL_IMAGE_SIZE_PRESETS[name]);
+    if (modelConfig.uses_image_size_object && sizeObjectSchema) {
+        falRequestPayload.image_size = fitDimensions(requested.width, requested.height, dimensionLimits(sizeObjectSchema.properties.width, sizeObjectSchema.properties.height, sizeMultiple));
+    } else if (presetNames.length > 0) {
+        falRequestPayload.image_size = closestBy(presetNames, name => shapeDistance(FAL_IMAGE_SIZE_PRESETS[name], requested));
+    } else if (modelConfig.supports_size_param) {
+        Object.assign(falRequestPayload, fitDimensions(requested.width, requested.height, dimensionLimits(properties.width, properties.height, sizeMultiple)));
+    }
+    if (modelConfig.supports_aspect_ratio_param) falRequestPayload.aspect_ratio = closestAspectRatio(properties.aspect_ratio, requested.width, requested.height);
+    const appliedSize = payloadImageSize(falRequestPayload);
+    if (appliedSize && appliedSize !== `${requested.width}x${requested.height}`) log.debug(`[Size] Mapped requested size ${requested.width}x${requested.height} to ${appliedSize} for ${modelConfig.endpoint_id}`);
+}
+
+// --- Payload Helpers ---
+// OpenAI's own `quality` and `style` values are accepted for every model and ignored when the model has
+// no preset for them; any other value must be a preset the catalog defines.
+const OPENAI_PRESET_VALUES = { quality: ['standard', 'hd', 'low', 'medium', 'high', 'auto'], style: ['vivid', 'natural'] };
+function resolveParameterPresets(definition: ModelDefinition, selections: { quality?: unknown; style?: unknown }): { presets: ParameterPreset[]; error?: string; param?: string } {
+    const presets: ParameterPreset[] = [];
+    for (const kind of ['quality', 'style'] as const) {
+        const value = selections[kind];
+        if (value === undefined || value === null || value === '') continue;
+        const preset = typeof value === 'string' ? definition[kind][value] : undefined;
+        if (preset) { presets.push(preset); continue; }
+        if (typeof value === 'string' && OPENAI_PRESET_VALUES[kind].includes(value)) continue;
+        const supported = Array.from(new Set([...OPENAI_PRESET_VALUES[kind], ...Object.keys(definition[kind])]));
+        return { presets: [], error: `Invalid '${kind}' for model '${definition.alias}': ${JSON.stringify(value)}. Supported values: ${supported.join(', ')}.`, param: kind };
+    }
+    return { presets };
+}
+// Preset parameters the model's schema does not declare are skipped, so catalog-wide presets can be
+// shared by models with different inputs.
+function applyParameterPresets(falRequestPayload: Record<string, any>, modelConfig: ModelConfig, presets: ParameterPreset[]) {
+    for (const preset of presets) {
+        for (const [key, value] of Object.entries(preset.params)) {
+            if (key in modelConfig.input_schema.properties) falRequestPayload[key] = value;
+            else log.debug(`[Presets] Skipping '${key}': not an input of ${modelConfig.endpoint_id}`);
+        }
+        if (preset.promptSuffix) falRequestPayload.prompt = `${falRequestPayload.prompt}${preset.promptSuffix}`;
+    }
+}
+
+// Model-specific Fal inputs supplied by the client as `fal_params` (or `extra_body`). Each key must be
+// an input property in the model's schema and hold a value of a type that property allows.
+function jsonTypeOf(value: unknown): string { if (value === null) return 'null'; if (Array.isArray(value)) return 'array'; if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number'; return typeof value; }
+function schemaTypes(propertySchema: any): string[] | null {
+    const options = propertySchema?.anyOf || propertySchema?.oneOf;
+    if (options) { const types = options.map(schemaTypes); return types.includes(null) ? null : Array.from(new Set(types.flat())); }
+    if (propertySchema?.type === undefined) return propertySchema?.properties ? ['object'] : null;
+    return Array.isArray(propertySchema.type) ? propertySchema.type : [propertySchema.type];
+}
+function typeMatches(allowedTypes: string[], actualType: string): boolean { return allowedTypes.includes(actualType) || (actualType === 'integer' && allowedTypes.includes('number')); }
+function validateFalParams(modelConfig: ModelConfig, modelName: string, falParams: unknown): { params: Record<string, unknown>; error?: string; param?: string } {
+    if (falParams === undefined || falParams === null) return { params: {} };
+    if (typeof falParams !== 'object' || Array.isArray(falParams)) return { params: {}, error: "'fal_params' must be an object of Fal input parameters.", param: 'fal_params' };
+    const inputProperties: Record<string, any> = modelConfig.input_schema.properties;
+    for (const [key, value] of Object.entries(falParams)) {
+        if (REQUEST_ONLY_PAYLOAD_FIELDS.includes(key)) return { params: {}, error: `'fal_params.${key}' cannot be set directly; use the request's own fields instead.`, param: `fal_params.${key}` };
+        const propertySchema = inputProperties[key];
+        if (!propertySchema) return { params: {}, error: `Unknown Fal parameter 'fal_params.${key}' for model '${modelName}'. Supported parameters: ${Object.keys(inputProperties).filter(name => !REQUEST_ONLY_PAYLOAD_FIELDS.includes(name)).join(', ')}.`, param: `fal_params.${key}` };
+        const allowedTypes = schemaTypes(propertySchema);
+        const actualType = jsonTypeOf(value);
+        if (allowedTypes && !typeMatches(allowedTypes, actualType)) return { params: {}, error: `'fal_params.${key}' must be of type ${allowedTypes.join(' or ')}, got ${actualType}.`, param: `fal_params.${key}` };
+    }
+    return { params: falParams as Record<string, unknown> };
+}
+
+function bytesToBase64(bytes: Uint8Array): string {
+    let binary = "";
+    for (let i = 0; i < bytes.length; i += 0x8000) binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+    return btoa(binary);
+}
+async function fileToDataUri(file: File): Promise<string> {
+    const bytes = new Uint8Array(await file.arrayBuffer());
+    return `data:${file.type || 'application/octet-stream'};base64,${bytesToBase64(bytes)}`;
+}
+
+// --- Payload Validation ---
+// Checks the translated Fal payload against the model's input schema so that bad sizes, enum values
+// and out-of-range numbers are reported with the OpenAI field at fault instead of an opaque Fal 422.
+// Covers the JSON Schema keywords Fal's OpenAPI documents use; anything else is left to Fal.
+interface SchemaViolation { path: string; message: string; }
+function joinSchemaPath(path: string, key: string): string { return path ? `${path}.${key}` : key; }
+
+function validateAgainstSchema(value: unknown, schema: any, path: string): SchemaViolation | null {
+    if (!schema || typeof schema !== 'object') return null;
+    const actualType = jsonTypeOf(value);
+    const options = schema.anyOf || schema.oneOf;
+    if (Array.isArray(options)) {
+        const violations = options.map((option: any) => validateAgainstSchema(value, option, path));
+        if (violations.some((violation: SchemaViolation | null) => violation === null)) return null;
+        // The branch written for the value's own type explains the failure best.
+        const sameTypeIndex = options.findIndex((option: any) => { const types = schemaTypes(option); return types !== null && typeMatches(types, actualType); });
+        if (sameTypeIndex >= 0) return violations[sameTypeIndex];
+        return { path, message: `must be of type ${schemaTypes(schema)?.join(' or ') ?? 'matching the schema'}, got ${actualType}` };
+    }
+    for (const subschema of schema.allOf || []) { const violation = validateAgainstSchema(value, subschema, path); if (violation) return violation; }
+    const allowedTypes = schemaTypes(schema);
+    if (allowedTypes && !typeMatches(allowedTypes, actualType)) return { path, message: `must be of type ${allowedTypes.join(' or ')}, got ${actualType}` };
+    if (schema.const !== undefined && value !== schema.const) return { path, message: `must be ${JSON.stringify(schema.const)}` };
+    if (Array.isArray(schema.enum) && !schema.enum.includes(value)) return { path, message: `must be one of ${schema.enum.map((option: unknown) => JSON.stringify(option)).join(', ')}, got ${JSON.stringify(value)}` };
+    if (typeof value === 'number') {
+        if (typeof schema.minimum === 'number' && value < schema.minimum) return { path, message: `must be at least ${schema.minimum}, got ${value}` };
+        if (typeof schema.maximum === 'number' && value > schema.maximum) return { path, message: `must be at most ${schema.maximum}, got ${value}` };
+        if (typeof schema.exclusiveMinimum === 'number' && value <= schema.exclusiveMinimum) return { path, message: `must be greater than ${schema.exclusiveMinimum}, got ${value}` };
+        if (typeof schema.exclusiveMaximum === 'number' && value >= schema.exclusiveMaximum) return { path, message: `must be less than ${schema.exclusiveMaximum}, got ${value}` };
+        if (typeof schema.multipleOf === 'number' && schema.multipleOf > 0 && Math.abs(value / schema.multipleOf - Math.round(value / schema.multipleOf)) > 1e-9) return { path, message: `must be a multiple of ${schema.multipleOf}, got ${value}` };
+    }
+    if (typeof value === 'string') {
+        if (typeof schema.minLength === 'number' && value.length < schema.minLength) return { path, message: `must be at least ${schema.minLength} characters long` };
+        if (typeof schema.maxLength === 'number' && value.length > schema.maxLength) return { path, message: `must be at most ${schema.maxLength} characters long, got ${value.length}` };
+        if (typeof schema.pattern === 'string') { try { if (!new RegExp(schema.pattern, 'u').test(value)) return { path, message: `must match the pattern ${schema.pattern}` }; } catch { /* pattern not supported by JS regexes */ } }
+    }
+    if (Array.isArray(value)) {
+        if (typeof schema.minItems === 'number' && value.length < schema.minItems) return { path, message: `must contain at least ${schema.minItems} items, got ${value.length}` };
+        if (typeof schema.maxItems === 'number' && value.length > schema.maxItems) return { path, message: `must contain at most ${schema.maxItems} items, got ${value.length}` };
+        if (schema.items && typeof schema.items === 'object' && !Array.isArray(schema.items)) {
+            for (let i = 0; i < value.length; i++) { const violation = validateAgainstSchema(value[i], schema.items, `${path}[${i}]`); if (violation) return violation; }
+        }
+    }
+    if (actualType === 'object') {
+        const fields = value as Record<string, unknown>;
+        for (const field of schema.required || []) { if (fields[field] === undefined) return { path: joinSchemaPath(path, field), message: 'is required' }; }
+        for (const [key, fieldValue] of Object.entries(fields)) {
+            if (fieldValue === undefined) continue;
+            const fieldSchema = schema.properties?.[key] ?? (typeof schema.additionalProperties === 'object' ? schema.additionalProperties : undefined);
+            // Unknown top-level fields are screened by validateFalParams; the proxy's own defaults may not be in every schema.
+            if (!fieldSchema && schema.additionalProperties === false && path) return { path: joinSchemaPath(path, key), message: 'is not a supported property' };
+            const violation = validateAgainstSchema(fieldValue, fieldSchema, joinSchemaPath(path, key));
+            if (violation) return violation;
+        }
+    }
+    return null;
+}
+
+// Fal payload fields that the proxy derives from OpenAI request fields, so errors can name the field the client sent.
+const FAL_PAYLOAD_PARAM_ORIGINS: Record<string, string> = { prompt: 'prompt', num_images: 'n', seed: 'seed', image_size: 'size', width: 'size', height: 'size', aspect_ratio: 'size', image_url: 'image', mask_url: 'mask' };
+function validateFalPayload(modelConfig: ModelConfig, falRequestPayload: Record<string, any>, falParamKeys: string[]): { message: string; param: string } | null {
+    const violation = validateAgainstSchema(falRequestPayload, modelConfig.input_schema, '');
+    if (!violation) return null;
+    const root = violation.path.split(/[.[]/)[0];
+    const param = falParamKeys.includes(root) ? `fal_params.${violation.path}` : FAL_PAYLOAD_PARAM_ORIGINS[root] ?? violation.path;
+    const derived = param !== violation.path && param !== `fal_params.${violation.path}`;
+    return { message: `Invalid value for '${param}'${derived ? ` (Fal input '${violation.path}')` : ''}: ${violation.message}.`, param };
+}
+
+// --- Response Formatting ---
+type ResponseFormat = 'url' | 'b64_json';
+function parseResponseFormat(value: unknown): ResponseFormat | null { if (value === undefined || value === null || value === '') return 'url'; return value === 'url' || value === 'b64_json' ? value : null; }
+async function downloadImage(imageUrl: string): Promise<Uint8Array> {
+    const response = await fetch(imageUrl);
+    if (!response.ok || !response.body) throw new Error(`Failed to download image from ${imageUrl}: ${response.status} ${response.statusText}`);
+    const declaredLength = parseInt(response.headers.get('Content-Length') || '0');
+    if (declaredLength > MAX_IMAGE_BYTES) { await response.body.cancel(); throw new Error(`Image at ${imageUrl} is ${declaredLength} bytes, exceeding the ${MAX_IMAGE_BYTES} byte limit.`); }
+    const chunks: Uint8Array[] = [];
+    let totalLength = 0;
+    for await (const chunk of response.body) {
+        totalLength += chunk.length;
+        if (totalLength > MAX_IMAGE_BYTES) throw new Error(`Image at ${imageUrl} exceeds the ${MAX_IMAGE_BYTES} byte limit.`);
+        chunks.push(chunk);
+    }
+    const bytes = new Uint8Array(totalLength);
+    let offset = 0;
+    for (const chunk of chunks) { bytes.set(chunk, offset); offset += chunk.length; }
+    return bytes;
+}
+async function downloadImageAsBase64(imageUrl: string): Promise<string> { return bytesToBase64(await downloadImage(imageUrl)); }
+// Builds the OpenAI `data` array, downloading each image when `b64_json` was requested.
+interface ImageResponseOutcome { data: Record<string, string>[]; errorResponse?: Response; }
+async function buildImageResponseData(imageUrls: string[], prompt: string, responseFormat: ResponseFormat): Promise<ImageResponseOutcome> {
+    if (responseFormat === 'url') return { data: imageUrls.map(imgUrl => ({ url: imgUrl, revised_prompt: prompt })) };
+    try {
+        const encodedImages = await Promise.all(imageUrls.map(downloadImageAsBase64));
+        return { data: encodedImages.map(b64 => ({ b64_json: b64, revised_prompt: prompt })) };
+    } catch (e: any) {
+        log.error(`[Image Download] ${e.message}`);
+        return { data: [], errorResponse: openAIErrorResponse(Status.BadGateway, { message: `Failed to download generated image for b64_json response: ${e.message}`, type: "server_error", code: "image_download_error" }) };
+    }
+}
+
+// --- Upstream Error Mapping ---
+// Fal failures are returned in OpenAI's error envelope with the status an OpenAI SDK expects, so its
+// retry logic behaves: bad input becomes 400, key problems 401/403, unknown requests 404, rate limits
+// 429, other Fal failures 502 and timeouts 504. `code` names the specific failure, and `request_id`
+// carries Fal's request ID whenever there is one, for support tickets.
+interface OpenAIError { message: string; type: string; param?: string | null; code?: string | null; request_id?: string; }
+function openAIErrorResponse(status: number, error: OpenAIError, headers?: Record<string, string>): Response {
+    const { message, type, param = null, code = null, request_id } = error;
+    return new Response(JSON.stringify({ error: { message, type, param, code, ...(request_id ? { request_id } : {}) } }), { status, headers });
+}
+
+const FAL_ERROR_STATUS_MAP: Record<number, { status: number; type: string; code: string }> = {
+    400: { status: Status.BadRequest, type: "invalid_request_error", code: "invalid_value" },
+    422: { status: Status.BadRequest, type: "invalid_request_error", code: "invalid_value" },
+    401: { status: Status.Unauthorized, type: "authentication_error", code: "invalid_upstream_key" },
+    403: { status: Status.Forbidden, type: "permission_error", code: "upstream_permission_denied" },
+    404: { status: Status.NotFound, type: "invalid_request_error", code: "not_found" },
+    429: { status: Status.TooManyRequests, type: "rate_limit_exceeded", code: "rate_limit_exceeded" },
+};
+
+// Fal reports validation problems as `detail` arrays of { loc, msg, type }; the first entry's location
+// is mapped back to the OpenAI parameter it came from.
+function describeFalErrorBody(bodyText: string): { message: string; param: string | null } {
+    let data: any;
+    try { data = JSON.parse(bodyText); } catch (e) { return { message: bodyText.trim() || "no details", param: null }; }
+    const detail = data?.detail ?? data;
+    if (typeof detail === 'string') return { message: detail, param: null };
+    if (!Array.isArray(detail) || detail.length === 0) return { message: JSON.stringify(data), param: null };
+    const locations = detail.map((entry: any) => (Array.isArray(entry?.loc) ? entry.loc : []).filter((part: unknown) => part !== 'body').join('.'));
+    const message = detail.map((entry: any, index: number) => `${locations[index] ? `${locations[index]}: ` : ''}${entry?.msg ?? JSON.stringify(entry)}`).join('; ');
+    const root = locations[0]?.split(/[.[]/)[0];
+    return { message, param: root ? FAL_PAYLOAD_PARAM_ORIGINS[root] ?? locations[0] : null };
+}
+
+// `falStatus` is the HTTP status of Fal's response, or null when Fal answered without an error status.
+// Statuses without an OpenAI equivalent become a 502 `server_error` with `code` (default `fal_api_error`).
+function falErrorResponse(falStatus: number | null, bodyText: string, context: string, { requestId, retryAfter, code = "fal_api_error" }: { requestId?: string | null; retryAfter?: string | null; code?: string } = {}): Response {
+    const { message, param } = describeFalErrorBody(bodyText);
+    const mapped = falStatus !== null ? FAL_ERROR_STATUS_MAP[falStatus] : undefined;
+    const error: OpenAIError = mapped
+        ? { message: `${context}: ${message}`, type: mapped.type, param, code: mapped.code }
+        : { message: `${context}${falStatus !== null ? ` (HTTP ${falStatus})` : ''}: ${message}`, type: "server_error", code };
+    if (requestId) error.request_id = requestId;
+    return openAIErrorResponse(mapped?.status ?? Status.BadGateway, error, mapped?.status === Status.TooManyRequests && retryAfter ? { 'Retry-After': retryAfter } : undefined);
+}
+
+// --- Content Policy ---
+// Tenants with a `content_policy` in the key store can force Fal's safety checker on, block prompts
+// before they are submitted, and decide what happens to images Fal flags in `has_nsfw_concepts`:
+// `allow` returns them, `blur` returns blurred copies, `drop` removes them and `reject` fails the
+// whole request. Fal only flags images while its checker is on, so any action but `allow` turns it
+// on. Tenants without a policy keep the checker off and get every image.
+function contentPolicyViolation(message: string, param: string | null, requestId?: string): Response {
+    return openAIErrorResponse(Status.BadRequest, { message: `Your request was rejected as a result of our safety system. ${message}`, type: "invalid_request_error", param, code: "content_policy_violation", ...(requestId ? { request_id: requestId } : {}) });
+}
+
+function hasSafetyChecker(modelConfig: ModelConfig | undefined): boolean { return Boolean(modelConfig?.input_schema.properties?.enable_safety_checker); }
+
+// Applied to the final payload, after presets and `fal_params`, so clients cannot turn the checker
+// back off. Returns the error to send if the prompt is blocked.
+function enforcePromptPolicy(tenant: string, modelConfig: ModelConfig, falRequestPayload: Record<string, any>): Response | null {
+    const policy = TENANT_CONTENT_POLICIES.get(tenant);
+    if (!policy) return null;
+    if ((policy.forceSafetyChecker || policy.nsfwAction !== 'allow') && hasSafetyChecker(modelConfig)) falRequestPayload.enable_safety_checker = true;
+    for (const field of ['prompt', 'negative_prompt']) {
+        const text = falRequestPayload[field];
+        if (typeof text !== 'string') continue;
+        const rule = policy.blockedTerms.find(({ pattern }) => pattern.test(text))?.term ?? policy.blockedPatterns.find(pattern => pattern.test(text))?.source;
+        if (rule === undefined) continue;
+        log.info(`[Content Policy] Blocked ${field} for tenant ${tenant}: matched '${rule}'`);
+        incrementCounter('falproxy_content_policy_actions_total', { tenant, action: 'blocked_prompt' });
+        return contentPolicyViolation("Your prompt may contain text that is not allowed by our safety system.", field === 'prompt' ? 'prompt' : 'fal_params.negative_prompt');
+    }
+    return null;
+}
+
+// Blurs one line of RGBA pixels per step with a running box sum, clamping at the edges. `lineStep`
+// and `pixelStep` are byte offsets, so the same pass runs along rows or columns.
+function boxBlurLines(pixels: Uint8ClampedArray, lineCount: number, lineLength: number, lineStep: number, pixelStep: number, radius: number) {
+    const source = new Uint8ClampedArray(lineLength * 4);
+    const windowSize = radius * 2 + 1;
+    for (let line = 0; line < lineCount; line++) {
+        const start = line * lineStep;
+        for (let i = 0; i < lineLength; i++) source.set(pixels.subarray(start + i * pixelStep, start + i * pixelStep + 4), i * 4);
+        for (let channel = 0; channel < 4; channel++) {
+            let sum = 0;
+            for (let offset = -radius; offset <= radius; offset++) sum += source[Math.min(lineLength - 1, Math.max(0, offset)) * 4 + channel];
+            for (let i = 0; i < lineLength; i++) {
+                pixels[start + i * pixelStep + channel] = sum / windowSize;
+                sum += source[Math.min(lineLength - 1, i + radius + 1) * 4 + channel] - source[Math.max(0, i - radius) * 4 + channel];
+            }
+        }
+    }
+}
+
+// Three box-blur passes approximate a Gaussian. The radius scales with the image, so detail is
+// hidden at any size. Returns the blurred image as a JPEG data URI.
+async function blurImage(imageUrl: string): Promise<string> {
+    const image = await Image.decode(await downloadImage(imageUrl));
+    const radius = Math.max(4, Math.round(Math.min(image.width, image.height) / 20));
+    for (let pass = 0; pass < 3; pass++) {
+        boxBlurLines(image.bitmap, image.height, image.width, image.width * 4, 4, radius);
+        boxBlurLines(image.bitmap, image.width, image.height, 4, image.width * 4, radius);
+    }
+    return `data:image/jpeg;base64,${bytesToBase64(await image.encodeJPEG(85))}`;
+}
+
+// A flagged image that cannot be blurred is dropped rather than returned as it was.
+async function blurFlaggedImage(tenant: string, image: any): Promise<any | null> {
+    try {
+        return { ...image, url: await blurImage(image.url), content_type: 'image/jpeg' };
+    } catch (e: any) {
+        log.warn(`[Content Policy] Dropping a flagged image for tenant ${tenant} that could not be blurred: ${e.message}`);
+        return null;
+    }
+}
+
+async function applyNsfwPolicy(tenant: string, outcome: FalGenerationOutcome): Promise<FalGenerationOutcome> {
+    const policy = TENANT_CONTENT_POLICIES.get(tenant);
+    const flags = outcome.resultData?.has_nsfw_concepts;
+    if (!policy || policy.nsfwAction === 'allow' || outcome.errorResponse || !Array.isArray(flags) || !flags.some(Boolean)) return outcome;
+    const images: any[] = Array.isArray(outcome.resultData.images) ? outcome.resultData.images : [];
+    const flaggedCount = images.filter((_, index) => flags[index]).length;
+    const kept = policy.nsfwAction === 'reject' ? [] : (await Promise.all(images.map(async (image, index) => {
+        if (!flags[index]) return { image, flagged: false };
+        if (policy.nsfwAction !== 'blur') return null;
+        const blurred = await blurFlaggedImage(tenant, image);
+        return blurred && { image: blurred, flagged: true };
+    }))).filter(entry => entry !== null);
+    if (kept.length === 0) {
+        log.info(`[Content Policy] Rejected a result with ${flaggedCount} flagged image(s) for tenant ${tenant}`);
+        incrementCounter('falproxy_content_policy_actions_total', { tenant, action: 'rejected' });
+        return { ...outcome, imageUrls: [], errorResponse: contentPolicyViolation("The generated image may contain content that is not allowed by our safety system.", null, outcome.submission?.request_id) };
+    }
+    const blurredCount = kept.filter(entry => entry.flagged).length;
+    if (blurredCount > 0) {
+        log.info(`[Content Policy] Blurred ${blurredCount} flagged image(s) for tenant ${tenant}`);
+        incrementCounter('falproxy_content_policy_actions_total', { tenant, action: 'blurred' }, blurredCount);
+    }
+    if (flaggedCount > blurredCount) {
+        log.info(`[Content Policy] Dropped ${flaggedCount - blurredCount} flagged image(s) for tenant ${tenant}`);
+        incrementCounter('falproxy_content_policy_actions_total', { tenant, action: 'dropped' }, flaggedCount - blurredCount);
+    }
+    const resultData = { ...outcome.resultData, images: kept.map(entry => entry.image), has_nsfw_concepts: kept.map(entry => entry.flagged) };
+    return { ...outcome, imageUrls: extractImageUrls(resultData), resultData };
+}
+
+// --- Fal Retries & Circuit Breaker ---
+// Fal calls that fail with a 5xx, a 429 or a network error are retried with full-jitter exponential
+// backoff (honouring Retry-After), up to a separate limit for each phase. Every such failure also
+// counts against the endpoint's circuit breaker: after FAL_CIRCUIT_BREAKER_THRESHOLD in a row, new
+// submissions to that endpoint fail fast for FAL_CIRCUIT_BREAKER_COOLDOWN_MS. After the cooldown,
+// the next call decides: a success closes the circuit, a failure reopens it.
+type FalPhase = 'submit' | 'status' | 'result';
+const FAL_RETRY_LIMITS: Record<FalPhase, number> = {
+    submit: parseInt(Deno.env.get("FAL_SUBMIT_RETRIES") || "2"),
+    status: parseInt(Deno.env.get("FAL_STATUS_RETRIES") || "4"),
+    result: parseInt(Deno.env.get("FAL_RESULT_RETRIES") || "3"),
+};
+const FAL_RETRY_BASE_DELAY_MS = parseInt(Deno.env.get("FAL_RETRY_BASE_DELAY_MS") || "500");
+const FAL_RETRY_MAX_DELAY_MS = 10 * 1000;
+const FAL_CIRCUIT_BREAKER_THRESHOLD = parseInt(Deno.env.get("FAL_CIRCUIT_BREAKER_THRESHOLD") || "5");
+const FAL_CIRCUIT_BREAKER_COOLDOWN_MS = parseInt(Deno.env.get("FAL_CIRCUIT_BREAKER_COOLDOWN_MS") || "30000");
+if (!Object.values(FAL_RETRY_LIMITS).every(value => Number.isInteger(value) && value >= 0)) { log.error("FATAL: FAL_SUBMIT_RETRIES, FAL_STATUS_RETRIES and FAL_RESULT_RETRIES must be non-negative integers."); Deno.exit(1); }
+if (![FAL_RETRY_BASE_DELAY_MS, FAL_CIRCUIT_BREAKER_THRESHOLD, FAL_CIRCUIT_BREAKER_COOLDOWN_MS].every(value => Number.isInteger(value) && value > 0)) { log.error("FATAL: FAL_RETRY_BASE_DELAY_MS, FAL_CIRCUIT_BREAKER_THRESHOLD and FAL_CIRCUIT_BREAKER_COOLDOWN_MS must be positive integers."); Deno.exit(1); }
+
+interface FalCircuit { consecutiveFailures: number; openUntil: number; }
+const falCircuits = new Map<string, FalCircuit>();
+
+function isTransientFalStatus(status: number): boolean { return status >= 500 || status === Status.TooManyRequests; }
+function falRetryDelayMs(attempt: number, retryAfterHeader?: string | null): number {
+    const jittered = Math.round(Math.random() * Math.min(FAL_RETRY_MAX_DELAY_MS, FAL_RETRY_BASE_DELAY_MS * 2 ** attempt));
+    const retryAfterMs = retryAfterHeader && !isNaN(parseInt(retryAfterHeader)) ? parseInt(retryAfterHeader) * 1000 : 0;
+    return Math.min(FAL_RETRY_MAX_DELAY_MS, Math.max(jittered, retryAfterMs));
+}
+
+function recordFalCallResult(endpoint: string, ok: boolean) {
+    const circuit = falCircuits.get(endpoint) ?? { consecutiveFailures: 0, openUntil: 0 };
+    falCircuits.set(endpoint, circuit);
+    if (ok) {
+        if (circuit.consecutiveFailures >= FAL_CIRCUIT_BREAKER_THRESHOLD) log.info(`[Circuit] ${endpoint} recovered; circuit closed`);
+        circuit.consecutiveFailures = 0;
+        circuit.openUntil = 0;
+        return;
+    }
+    circuit.consecutiveFailures++;
+    if (circuit.consecutiveFailures >= FAL_CIRCUIT_BREAKER_THRESHOLD && circuit.openUntil <= Date.now()) {
+        circuit.openUntil = Date.now() + FAL_CIRCUIT_BREAKER_COOLDOWN_MS;
+        incrementCounter('falproxy_fal_circuit_opens_total', { endpoint });
+        log.warn(`[Circuit] ${endpoint} failed ${circuit.consecutiveFailures} times in a row; pausing submissions for ${FAL_CIRCUIT_BREAKER_COOLDOWN_MS / 1000}s`);
+    }
+}
+
+function falCircuitOpenResponse(endpoint: string): Response | null {
+    const remainingMs = (falCircuits.get(endpoint)?.openUntil ?? 0) - Date.now();
+    if (remainingMs <= 0) return null;
+    return openAIErrorResponse(Status.ServiceUnavailable, { message: `Fal endpoint ${endpoint} is failing repeatedly; new requests are paused for ${Math.ceil(remainingMs / 1000)}s.`, type: "server_error", code: "upstream_unavailable" }, { 'Retry-After': String(Math.ceil(remainingMs / 1000)) });
+}
+
+// Sends a status or result request to Fal, retrying transient failures. Returns the last response,
+// which may still be an error, or rethrows the last network error.
+async function fetchFalWithRetry(phase: FalPhase, endpoint: string, url: string, init: RequestInit, signal?: AbortSignal): Promise<Response> {
+    for (let attempt = 0; ; attempt++) {
+        let response: Response | undefined;
+        let networkError: unknown;
+        try { response = await fetch(url, init); } catch (e) { networkError = e; }
+        const transient = !response || isTransientFalStatus(response.status);
+        recordFalCallResult(endpoint, !transient);
+        if (!transient || attempt >= FAL_RETRY_LIMITS[phase] || signal?.aborted) { if (response) return response; throw networkError; }
+        const delayMs = falRetryDelayMs(attempt, response?.headers.get('Retry-After'));
+        log.warn(`[Retry] Fal ${phase} request for ${endpoint} failed (${response ? `HTTP ${response.status}` : (networkError as Error).message}); retry ${attempt + 1}/${FAL_RETRY_LIMITS[phase]} in ${delayMs}ms`);
+        incrementCounter('falproxy_fal_retries_total', { endpoint, phase });
+        await response?.body?.cancel();
+        await sleep(delayMs, signal);
+    }
+}
+
+// --- Fal Queue Execution ---
+// Status polling starts at POLL_INITIAL_INTERVAL_MS and backs off by POLL_BACKOFF_FACTOR up to
+// POLL_MAX_INTERVAL_MS. A generation that has not finished GENERATION_TIMEOUT_MS after submission
+// (or the model's `timeout_ms`) is reported as timed out but left running at Fal.
+const POLL_INITIAL_INTERVAL_MS = parseInt(Deno.env.get("POLL_INITIAL_INTERVAL_MS") || "250");
+const POLL_MAX_INTERVAL_MS = parseInt(Deno.env.get("POLL_MAX_INTERVAL_MS") || "5000");
+const POLL_BACKOFF_FACTOR = parseFloat(Deno.env.get("POLL_BACKOFF_FACTOR") || "1.5");
+const GENERATION_TIMEOUT_MS = parseInt(Deno.env.get("GENERATION_TIMEOUT_MS") || "90000");
+if (![POLL_INITIAL_INTERVAL_MS, POLL_MAX_INTERVAL_MS, GENERATION_TIMEOUT_MS].every(value => Number.isInteger(value) && value > 0)) { log.error("FATAL: POLL_INITIAL_INTERVAL_MS, POLL_MAX_INTERVAL_MS and GENERATION_TIMEOUT_MS must be positive integers."); Deno.exit(1); }
+if (isNaN(POLL_BACKOFF_FACTOR) || POLL_BACKOFF_FACTOR < 1) { log.error("FATAL: POLL_BACKOFF_FACTOR must be a number of at least 1."); Deno.exit(1); }
+
+interface FalSubmission { request_id: string; status_url: string; response_url: string; cancel_url: string; apiKey: string; endpoint: string; submittedAt: number; }
+interface FalSubmitOutcome { submission?: FalSubmission; errorResponse?: Response; }
+// `pending` lists submissions that timed out while still running at Fal.
+interface FalGenerationOutcome { imageUrls: string[]; submission?: FalSubmission; resultData?: any; errorResponse?: Response; pending?: FalSubmission[]; }
+function extractImageUrls(resultData: any): string[] {
+    const imageUrls: string[] = [];
+    if (resultData?.images && Array.isArray(resultData.images)) resultData.images.forEach((img: any) => { if (img?.url) imageUrls.push(img.url); });
+    return imageUrls;
+}
+
+// Submits a payload to the Fal queue with a key picked from the pool, failing over to another key
+// when Fal rejects the key itself (401/403/429). The key that was accepted is recorded on the
+// submission. If every key failed transiently, the whole round is retried with backoff.
+async function submitFalRequest(modelConfig: ModelConfig, falRequestPayload: Record<string, any>): Promise<FalSubmitOutcome> {
+    const submitStartedAt = Date.now();
+    let apiKey = selectApiKey();
+    const endpoint = modelConfig.endpoint_id;
+    const submitUrl = FAL_WEBHOOK_URL ? `${modelConfig.submit_url}${modelConfig.submit_url.includes('?') ? '&' : '?'}fal_webhook=${encodeURIComponent(FAL_WEBHOOK_URL)}` : modelConfig.submit_url;
+    let falSubmitResponse: Response | undefined;
+    let submitResponseText = '';
+    let networkError: Error | undefined;
+    for (let attempt = 0; ; attempt++) {
+        const circuitOpenResponse = falCircuitOpenResponse(endpoint);
+        if (circuitOpenResponse) return { errorResponse: circuitOpenResponse };
+        const triedKeys = new Set<string>();
+        while (true) {
+            triedKeys.add(apiKey);
+            try {
+                falSubmitResponse = await fetch(submitUrl, { method: 'POST', headers: { "Authorization": `Key ${apiKey}`, "Content-Type": "application/json" }, body: JSON.stringify(falRequestPayload) });
+                submitResponseText = await falSubmitResponse.text();
+            } catch (e: any) {
+                reportKeyFailure(apiKey, null, `network error: ${e.message}`);
+                falSubmitResponse = undefined;
+                networkError = e;
+                break;
+            }
+            log.debug(`Fal Submit Response Status: ${falSubmitResponse.status}`);
+            log.debug("Fal Submit Response Body", { body: submitResponseText });
+            if (!isKeyFailoverStatus(falSubmitResponse.status)) break;
+            reportKeyFailure(apiKey, falSubmitResponse.status, `HTTP ${falSubmitResponse.status} on submit`, falSubmitResponse.headers.get('Retry-After'));
+            if (triedKeys.size >= falKeyPool.length) break;
+            apiKey = selectApiKey(triedKeys);
+            log.warn(`[Key Pool] Retrying submission with key ${maskApiKey(apiKey)}`);
+        }
+        const transient = !falSubmitResponse || isTransientFalStatus(falSubmitResponse.status);
+        recordFalCallResult(endpoint, !transient);
+        if (!transient || attempt >= FAL_RETRY_LIMITS.submit) break;
+        const delayMs = falRetryDelayMs(attempt, falSubmitResponse?.headers.get('Retry-After'));
+        log.warn(`[Retry] Fal submit for ${endpoint} failed (${falSubmitResponse ? `HTTP ${falSubmitResponse.status}` : networkError!.message}); retry ${attempt + 1}/${FAL_RETRY_LIMITS.submit} in ${delayMs}ms`);
+        incrementCounter('falproxy_fal_retries_total', { endpoint, phase: 'submit' });
+        await sleep(delayMs);
+        apiKey = selectApiKey();
+    }
+    if (!falSubmitResponse) return { errorResponse: openAIErrorResponse(Status.BadGateway, { message: `Could not reach the Fal API: ${networkError!.message}`, type: "server_error", code: "fal_api_error" }) };
     
-    const modelConfig = await getModelConfig(modelName);
-    if (!modelConfig) return new Response(JSON.stringify({ error: { message: `Model '${modelName}' not found or its configuration failed to load.`, type: "invalid_request_error" } }), { status: Status.NotFound });
+    if (!falSubmitResponse.ok) {
+        if (falSubmitResponse.status >= 500) reportKeyFailure(apiKey, falSubmitResponse.status, `HTTP ${falSubmitResponse.status} on submit`);
+        else reportKeySuccess(apiKey);
+        return { errorResponse: falErrorResponse(falSubmitResponse.status, submitResponseText, "Fal API submission error", { requestId: falSubmitResponse.headers.get('x-fal-request-id'), retryAfter: falSubmitResponse.headers.get('Retry-After') }) };
+    }
+    reportKeySuccess(apiKey);
+    const submittedAt = Date.now();
+    observeHistogram('falproxy_generation_phase_duration_seconds', { endpoint: modelConfig.endpoint_id, phase: 'submit' }, (submittedAt - submitStartedAt) / 1000);
     
-    let width: number | undefined, height: number | undefined, aspectRatio: string | undefined;
-    const requestedDimensions = parseSize(requestedSize);
-    if (requestedDimensions) { width = requestedDimensions.width; height = requestedDimensions.height; aspectRatio = calculateAspectRatio(width, height); }
+    const falSubmitData = JSON.parse(submitResponseText);
     
-    const falRequestPayload: Record<string, any> = { prompt, num_images: numImages, seed: requestedSeed, enable_safety_checker: false };
-    if (width && height) {
-        if (modelConfig.uses_image_size_object) falRequestPayload.image_size = { width, height };
-        else if (modelConfig.supports_size_param) { falRequestPayload.width = width; falRequestPayload.height = height; }
-        if (aspectRatio && modelConfig.supports_aspect_ratio_param) falRequestPayload.aspect_ratio = aspectRatio;
-    } else if (aspectRatio && modelConfig.supports_aspect_ratio_param) {
-        falRequestPayload.aspect_ratio = aspectRatio;
+    const { status_url, response_url, request_id, cancel_url } = falSubmitData;
+    if (!status_url || !response_url || !request_id) {
+        return { errorResponse: openAIErrorResponse(Status.BadGateway, { message: "Fal API did not return valid polling URLs.", type: "server_error", code: "fal_api_error", ...(request_id ? { request_id } : {}) }) };
     }
-    debugLog("Constructed Fal Payload:", falRequestPayload);
+    log.debug(`Received polling URLs. Status: ${status_url}, Result: ${response_url}`);
+    return { submission: { request_id, status_url, response_url, cancel_url: cancel_url || `${response_url}/cancel`, apiKey, endpoint: modelConfig.endpoint_id, submittedAt } };
+}
 
+// Polls a submitted Fal request until images are available. On failure, `errorResponse`
+// holds the OpenAI-style error to return to the client. When `onStatus` is given, every status
+// payload (including Fal's logs) is passed to it as it arrives. If `signal` aborts, because the
+// client went away, polling stops and the Fal request is cancelled. With webhooks enabled, the
+// wait ends as soon as Fal's callback arrives, and polling only continues as a slow safety net
+// unless the caller wants live status updates.
+type FalStatusListener = (statusData: any) => void;
+interface PollOptions { timeoutMs: number; signal?: AbortSignal; onStatus?: FalStatusListener; }
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise(resolve => {
+        const done = () => { clearTimeout(timer); signal?.removeEventListener('abort', done); resolve(); };
+        const timer = setTimeout(done, ms);
+        signal?.addEventListener('abort', done, { once: true });
+    });
+}
+
+async function cancelFalRequest(submission: FalSubmission): Promise<FalGenerationOutcome> {
+    log.info(`[Poll] Client disconnected; cancelling Fal request ${submission.request_id}`);
+    try { const cancelResponse = await fetch(submission.cancel_url, { method: 'PUT', headers: { "Authorization": `Key ${submission.apiKey}` } }); log.debug(`Cancel response for ${submission.request_id}: ${cancelResponse.status} ${await cancelResponse.text()}`); }
+    catch (e: any) { log.warn(`[Poll] Failed to cancel Fal request ${submission.request_id}: ${e.message}`); }
+    return { imageUrls: [], submission, errorResponse: openAIErrorResponse(Status.BadRequest, { message: "The client disconnected before the generation finished.", type: "invalid_request_error", code: "request_cancelled", request_id: submission.request_id }) };
+}
+
+function falUnreachableOutcome(submission: FalSubmission, error: Error): FalGenerationOutcome {
+    log.error(`[Poll] Could not reach Fal for request ${submission.request_id}: ${error.message}`);
+    return { imageUrls: [], submission, errorResponse: openAIErrorResponse(Status.BadGateway, { message: `Could not reach the Fal API: ${error.message}`, type: "server_error", code: "fal_api_error", request_id: submission.request_id }) };
+}
+
+function falNoImagesResponse(submission: FalSubmission): Response {
+    return openAIErrorResponse(Status.BadGateway, { message: "Image generation returned no images.", type: "server_error", code: "generation_failed", request_id: submission.request_id });
+}
+
+// Fal answers the result URL of a failed request with the error it failed with, e.g. a 422 for input
+// the model rejected, so that response decides how the failure is reported.
+async function falFailureOutcome(submission: FalSubmission, falStatus: string): Promise<FalGenerationOutcome> {
+    let errorResponse = openAIErrorResponse(Status.BadGateway, { message: `Image generation failed: Fal status indicated ${falStatus}.`, type: "server_error", code: "generation_failed", request_id: submission.request_id });
     try {
-        const falSubmitResponse = await fetch(modelConfig.submit_url, { method: 'POST', headers: { "Authorization": `Key ${apiKey}`, "Content-Type": "application/json" }, body: JSON.stringify(falRequestPayload) });
-        const submitResponseText = await falSubmitResponse.text();
-        debugLog(`Fal Submit Response Status: ${falSubmitResponse.status}`);
-        debugLog("Fal Submit Response Body:", submitResponseText);
-        
-        if (!falSubmitResponse.ok) { let errorMessage = submitResponseText; try { const errorData = JSON.parse(submitResponseText); errorMessage = errorData.detail || JSON.stringify(errorData); } catch (e) { /* ignore */ } return new Response(JSON.stringify({ error: { message: `Fal API submission error: ${errorMessage}`, type: "fal_api_error" } }), { status: Status.InternalServerError }); }
-        
-        const falSubmitData = JSON.parse(submitResponseText);
+        const resultResponse = await fetch(submission.response_url, { headers: { "Authorization": `Key ${submission.apiKey}` } });
+        errorResponse = falErrorResponse(resultResponse.ok ? null : resultResponse.status, await resultResponse.text(), "Image generation failed", { requestId: submission.request_id, code: "generation_failed" });
+    } catch (e) { /* keep the status-based error */ }
+    return { imageUrls: [], submission, errorResponse };
+}
+
+// Fetches a finished request's result, as async jobs and webhooks without a payload do.
+async function fetchFalResultOutcome(submission: FalSubmission): Promise<FalGenerationOutcome> {
+    let resultResponse: Response;
+    try { resultResponse = await fetchFalWithRetry('result', submission.endpoint, submission.response_url, { headers: { "Authorization": `Key ${submission.apiKey}` } }); }
+    catch (e: any) { return falUnreachableOutcome(submission, e); }
+    if (!resultResponse.ok) return { imageUrls: [], submission, errorResponse: falErrorResponse(resultResponse.status, await resultResponse.text(), "Fal API result error", { requestId: submission.request_id }) };
+    const resultData = await resultResponse.json();
+    const imageUrls = extractImageUrls(resultData);
+    return imageUrls.length > 0 ? { imageUrls, submission, resultData } : { imageUrls, submission, resultData, errorResponse: falNoImagesResponse(submission) };
+}
+
+async function pollFalRequest(submission: FalSubmission, { timeoutMs, signal, onStatus }: PollOptions): Promise<FalGenerationOutcome> {
+    const { response_url, request_id, apiKey } = submission;
+    const status_url = onStatus ? `${submission.status_url}${submission.status_url.includes('?') ? '&' : '?'}logs=1` : submission.status_url;
+    let imageUrls: string[] = [];
+    let resultData: any;
+    let lastStatus: string | undefined;
+    // Queue time ends when Fal first reports the request as running (or already finished).
+    let inferenceStartedAt: number | undefined;
+    const awaitWebhook = Boolean(FAL_WEBHOOK_URL) && !onStatus;
+    let interval = awaitWebhook ? FAL_WEBHOOK_FALLBACK_POLL_MS : POLL_INITIAL_INTERVAL_MS;
+    for (let attempt = 1; ; attempt++) {
+        const remainingMs = submission.submittedAt + timeoutMs - Date.now();
+        if (remainingMs <= 0) break;
+        await waitForFalWebhook(request_id, Math.min(interval, remainingMs), signal);
+        if (signal?.aborted) return await cancelFalRequest(submission);
+        const webhookResult = falWebhookResults.get(request_id);
+        if (webhookResult) { falWebhookResults.delete(request_id); return await falWebhookOutcome(submission, webhookResult); }
+        if (!awaitWebhook) interval = Math.min(POLL_MAX_INTERVAL_MS, interval * POLL_BACKOFF_FACTOR);
+        log.debug(`Polling attempt ${attempt} for request_id: ${request_id}`);
+        incrementCounter('falproxy_poll_attempts_total', { endpoint: submission.endpoint });
         
-        const { status_url, response_url, request_id } = falSubmitData;
-        if (!status_url || !response_url || !request_id) {
-            return new Response(JSON.stringify({ error: { message: "Fal API did not return valid polling URLs.", type: "fal_api_error" } }), { status: Status.InternalServerError });
+        let statusResponse: Response;
+        try { statusResponse = await fetchFalWithRetry('status', submission.endpoint, status_url, { headers: { "Authorization": `Key ${apiKey}` } }, signal); }
+        catch (e: any) { return signal?.aborted ? await cancelFalRequest(submission) : falUnreachableOutcome(submission, e); }
+        if (signal?.aborted) return await cancelFalRequest(submission);
+        if (!statusResponse.ok) return { imageUrls: [], submission, errorResponse: falErrorResponse(statusResponse.status, await statusResponse.text(), "Fal API status error", { requestId: request_id }) };
+        const statusData = await statusResponse.json();
+        lastStatus = statusData.status;
+        onStatus?.(statusData);
+        if (inferenceStartedAt === undefined && statusData.status !== "IN_QUEUE") {
+            inferenceStartedAt = Date.now();
+            observeHistogram('falproxy_generation_phase_duration_seconds', { endpoint: submission.endpoint, phase: 'queue' }, (inferenceStartedAt - submission.submittedAt) / 1000);
+        }
+        if (statusData.status === "COMPLETED") {
+            let resultResponse: Response;
+            try { resultResponse = await fetchFalWithRetry('result', submission.endpoint, response_url, { headers: { "Authorization": `Key ${apiKey}` } }, signal); }
+            catch (e: any) { return falUnreachableOutcome(submission, e); }
+            if (!resultResponse.ok) return { imageUrls: [], submission, errorResponse: falErrorResponse(resultResponse.status, await resultResponse.text(), "Fal API result error", { requestId: request_id }) };
+            resultData = await resultResponse.json();
+            log.debug("Received final result data", { result: resultData });
+            imageUrls = extractImageUrls(resultData);
+            if (imageUrls.length > 0) {
+                observeHistogram('falproxy_generation_phase_duration_seconds', { endpoint: submission.endpoint, phase: 'inference' }, (Date.now() - inferenceStartedAt!) / 1000);
+                break;
+            }
+        } else if (statusData.status === "FAILED" || statusData.status === "ERROR") {
+            return await falFailureOutcome(submission, statusData.status);
         }
-        debugLog(`Received polling URLs. Status: ${status_url}, Result: ${response_url}`);
-
-        const imageUrls: string[] = [];
-        for (let attempt = 0; attempt < 45; attempt++) {
-            await new Promise(resolve => setTimeout(resolve, 2000));
-            debugLog(`Polling attempt ${attempt + 1}/45 for request_id: ${request_id}`);
-            
-            const statusResponse = await fetch(status_url, { headers: { "Authorization": `Key ${apiKey}` } });
-            if (statusResponse.ok) {
-                const statusData = await statusResponse.json();
-                if (statusData.status === "COMPLETED") {
-                    const resultResponse = await fetch(response_url, { headers: { "Authorization": `Key ${apiKey}` } });
-                    if (resultResponse.ok) {
-                        const resultData = await resultResponse.json();
-                        debugLog("Received final result data:", resultData);
-                        if (resultData.images && Array.isArray(resultData.images)) resultData.images.forEach((img: any) => { if (img?.url) imageUrls.push(img.url); });
-                        if (imageUrls.length > 0) break;
+    }
+    if (imageUrls.length > 0) return { imageUrls, submission, resultData };
+    if (lastStatus === "COMPLETED") return { imageUrls, submission, resultData, errorResponse: falNoImagesResponse(submission) };
+    log.warn(`[Poll] Fal request ${request_id} did not finish within ${timeoutMs}ms`);
+    return { imageUrls, submission, pending: [submission], errorResponse: openAIErrorResponse(Status.GatewayTimeout, { message: `Image generation did not finish within ${timeoutMs / 1000}s. It is still running; collect the result from GET /v1/jobs/${request_id}.`, type: "server_error", code: "generation_timeout", request_id }) };
+}
+
+// Splits a request for `numImages` images across several Fal submissions when the model cannot return
+// that many from one: its schema has no `num_images` input, or caps it below `numImages`. Each
+// submission gets its own seed (counting up from the request's seed, if any) so the images differ.
+function planFalSubmissions(modelConfig: ModelConfig, falRequestPayload: Record<string, any>, numImages: number): Record<string, any>[] {
+    const inputProperties: Record<string, any> = modelConfig.input_schema.properties;
+    const numImagesSchema = inputProperties.num_images;
+    const perSubmission = numImagesSchema ? Math.max(1, Math.min(numImages, numImagesSchema.maximum ?? numImages)) : 1;
+    if (perSubmission >= numImages) return [falRequestPayload];
+    const baseSeed = Number.isInteger(falRequestPayload.seed) ? falRequestPayload.seed : null;
+    const falRequestPayloads: Record<string, any>[] = [];
+    for (let remaining = numImages; remaining > 0; remaining -= perSubmission) {
+        const payload = { ...falRequestPayload };
+        if (numImagesSchema) payload.num_images = Math.min(perSubmission, remaining); else delete payload.num_images;
+        if (inputProperties.seed) payload.seed = baseSeed !== null ? baseSeed + falRequestPayloads.length : Math.floor(Math.random() * 2 ** 31);
+        falRequestPayloads.push(payload);
+    }
+    log.debug(`[Fan-out] Splitting ${numImages} images into ${falRequestPayloads.length} submissions for ${modelConfig.endpoint_id}`);
+    return falRequestPayloads;
+}
+
+// Combines the outcomes of a fanned-out request. Images from the submissions that succeeded are
+// returned even if others failed; the error is only surfaced when none of them produced images.
+function mergeFalOutcomes(outcomes: FalGenerationOutcome[]): FalGenerationOutcome {
+    if (outcomes.length === 1) return outcomes[0];
+    const succeeded = outcomes.filter(outcome => !outcome.errorResponse);
+    if (succeeded.length === 0) {
+        // Report a timeout, with every submission still running, only if one timed out; otherwise the first error.
+        const timedOut = outcomes.find(outcome => outcome.pending?.length);
+        return timedOut ? { ...timedOut, pending: outcomes.flatMap(outcome => outcome.pending ?? []) } : outcomes[0];
+    }
+    if (succeeded.length < outcomes.length) log.warn(`[Fan-out] ${outcomes.length - succeeded.length} of ${outcomes.length} submissions failed; returning partial results.`);
+    const resultData = { ...succeeded[0].resultData, images: succeeded.flatMap(outcome => Array.isArray(outcome.resultData?.images) ? outcome.resultData.images : []) };
+    if (succeeded.some(outcome => Array.isArray(outcome.resultData?.has_nsfw_concepts))) resultData.has_nsfw_concepts = succeeded.flatMap(outcome => outcome.resultData?.has_nsfw_concepts ?? outcome.imageUrls.map(() => false));
+    return { imageUrls: succeeded.flatMap(outcome => outcome.imageUrls), submission: succeeded[0].submission, resultData };
+}
+
+// Sync and streaming generations that are waiting on Fal, listed by the admin API. Async jobs are
+// tracked in `generationJobs` instead.
+interface InFlightGeneration { requestId: string | null; usage: UsageContext; mode: 'sync' | 'stream'; falRequestIds: string[]; }
+const inFlightGenerations = new Set<InFlightGeneration>();
+
+// Submits and polls every planned payload in parallel. `onSubmitted` is called for each accepted
+// submission; status updates are only reported for the first one.
+interface GenerationOptions { signal?: AbortSignal; onSubmitted?: (submission: FalSubmission) => void; onStatus?: FalStatusListener; }
+async function runFalGeneration(modelConfig: ModelConfig, falRequestPayloads: Record<string, any>[], usage: UsageContext, mode: InFlightGeneration['mode'], { signal, onSubmitted, onStatus }: GenerationOptions = {}): Promise<FalGenerationOutcome> {
+    const generation: InFlightGeneration = { requestId: requestLogContext.getStore()?.requestId ?? null, usage, mode, falRequestIds: [] };
+    const timeoutMs = SUPPORTED_MODELS_MAP.get(usage.model)?.timeoutMs ?? GENERATION_TIMEOUT_MS;
+    inFlightGenerations.add(generation);
+    try {
+        const outcomes = await Promise.all(falRequestPayloads.map(async (falRequestPayload, index): Promise<FalGenerationOutcome> => {
+            const { submission, errorResponse } = await submitFalRequest(modelConfig, falRequestPayload);
+            if (!submission) return { imageUrls: [], errorResponse };
+            generation.falRequestIds.push(submission.request_id);
+            onSubmitted?.(submission);
+            return await pollFalRequest(submission, { timeoutMs, signal, onStatus: index === 0 ? onStatus : undefined });
+        }));
+        return mergeFalOutcomes(outcomes);
+    } finally {
+        inFlightGenerations.delete(generation);
+    }
+}
+
+// --- Fal Webhooks ---
+// When FAL_WEBHOOK_URL is set, submissions ask Fal to POST the result to that URL (this proxy's
+// /internal/fal-webhook route), so a waiting request finishes as soon as Fal does and async jobs
+// are answered without a status check. Callbacks are verified against Fal's published ED25519 keys.
+// Without a public callback URL the proxy polls the queue instead.
+const FAL_WEBHOOK_URL = Deno.env.get("FAL_WEBHOOK_URL");
+const FAL_WEBHOOK_JWKS_URL = Deno.env.get("FAL_WEBHOOK_JWKS_URL") || "https://rest.alpha.fal.ai/.well-known/jwks.json";
+const FAL_WEBHOOK_KEYS_TTL_MS = 24 * 60 * 60 * 1000;
+const FAL_WEBHOOK_MAX_SKEW_SECONDS = 5 * 60;
+// Requests waiting on a webhook still poll this often in case a callback is lost.
+const FAL_WEBHOOK_FALLBACK_POLL_MS = 30 * 1000;
+if (FAL_WEBHOOK_URL && !/^https?:\/\//.test(FAL_WEBHOOK_URL)) { log.error("FATAL: FAL_WEBHOOK_URL must be an http(s) URL."); Deno.exit(1); }
+
+// Results are kept until the waiting request takes them, or for JOB_TTL_MS so async jobs can collect them.
+interface FalWebhookResult { status: string; payload: any; error: string | null; receivedAt: number; }
+const falWebhookResults = new Map<string, FalWebhookResult>();
+const falWebhookWaiters = new Map<string, () => void>();
+let falWebhookKeys: { keys: CryptoKey[]; fetchedAt: number } | null = null;
+
+function hexToBytes(hex: string) { if (!/^(?:[0-9a-f]{2})+$/i.test(hex)) return null; return Uint8Array.from(hex.match(/../g)!, byte => parseInt(byte, 16)); }
+function base64UrlToBytes(value: string) { const base64 = value.replace(/-/g, '+').replace(/_/g, '/'); return Uint8Array.from(atob(base64 + '='.repeat((4 - base64.length % 4) % 4)), char => char.charCodeAt(0)); }
+
+async function getFalWebhookKeys(): Promise<CryptoKey[]> {
+    if (falWebhookKeys && Date.now() - falWebhookKeys.fetchedAt < FAL_WEBHOOK_KEYS_TTL_MS) return falWebhookKeys.keys;
+    const response = await fetch(FAL_WEBHOOK_JWKS_URL);
+    if (!response.ok) throw new Error(`HTTP ${response.status} fetching ${FAL_WEBHOOK_JWKS_URL}`);
+    const { keys } = await response.json();
+    const ed25519Keys = (Array.isArray(keys) ? keys : []).filter((jwk: any) => jwk?.kty === 'OKP' && jwk.crv === 'Ed25519' && typeof jwk.x === 'string');
+    falWebhookKeys = { keys: await Promise.all(ed25519Keys.map((jwk: any) => crypto.subtle.importKey('raw', base64UrlToBytes(jwk.x), { name: 'Ed25519' }, false, ['verify']))), fetchedAt: Date.now() };
+    log.debug(`[Webhook] Loaded ${falWebhookKeys.keys.length} Fal webhook keys`);
+    return falWebhookKeys.keys;
+}
+
+// Fal signs the request ID, user ID, timestamp and SHA-256 of the body, joined by newlines. Returns
+// why the callback was rejected, or null if it is genuine.
+async function verifyFalWebhook(request: Request, body: string): Promise<string | null> {
+    const requestId = request.headers.get('X-Fal-Webhook-Request-Id');
+    const userId = request.headers.get('X-Fal-Webhook-User-Id');
+    const timestamp = request.headers.get('X-Fal-Webhook-Timestamp');
+    const signature = hexToBytes(request.headers.get('X-Fal-Webhook-Signature') || '');
+    if (!requestId || !userId || !timestamp || !signature) return "missing X-Fal-Webhook-* headers";
+    if (!(Math.abs(Date.now() / 1000 - Number(timestamp)) <= FAL_WEBHOOK_MAX_SKEW_SECONDS)) return `timestamp ${timestamp} is outside the allowed window`;
+    const message = new TextEncoder().encode([requestId, userId, timestamp, await sha256Hex(body)].join('\n'));
+    for (const key of await getFalWebhookKeys()) { if (await crypto.subtle.verify('Ed25519', key, signature, message)) return null; }
+    return "signature does not match any of Fal's keys";
+}
+
+// Like sleep(), but wakes up early once Fal's callback for `requestId` has arrived.
+function waitForFalWebhook(requestId: string, ms: number, signal?: AbortSignal): Promise<void> {
+    if (falWebhookResults.has(requestId)) return Promise.resolve();
+    const delivered = new AbortController();
+    falWebhookWaiters.set(requestId, () => delivered.abort());
+    return sleep(ms, signal ? AbortSignal.any([signal, delivered.signal]) : delivered.signal).finally(() => falWebhookWaiters.delete(requestId));
+}
+
+// Fal's error callbacks carry the failing status in `error` ("Invalid status code: 422") and its
+// response body, if any, in `payload`.
+async function falWebhookOutcome(submission: FalSubmission, result: FalWebhookResult): Promise<FalGenerationOutcome> {
+    log.debug(`[Webhook] Using callback result for ${submission.request_id}`, { status: result.status });
+    if (result.status !== 'OK') {
+        const falStatus = result.error?.match(/\b([45]\d\d)\b/)?.[1];
+        return { imageUrls: [], submission, errorResponse: falErrorResponse(falStatus ? parseInt(falStatus) : null, result.payload ? JSON.stringify(result.payload) : result.error ?? '', "Image generation failed", { requestId: submission.request_id, code: "generation_failed" }) };
+    }
+    // Fal leaves the payload out when it is too large to deliver; it is still available from the queue.
+    if (!result.payload) return await fetchFalResultOutcome(submission);
+    const imageUrls = extractImageUrls(result.payload);
+    return imageUrls.length > 0 ? { imageUrls, submission, resultData: result.payload } : { imageUrls, submission, resultData: result.payload, errorResponse: falNoImagesResponse(submission) };
+}
+
+// The signature only proves that Fal sent a callback, not that this proxy submitted the request, so
+// results are only kept for requests that a generation or job is waiting on.
+function isAwaitedFalRequest(requestId: string): boolean {
+    if (falWebhookWaiters.has(requestId)) return true;
+    for (const generation of inFlightGenerations) { if (generation.falRequestIds.includes(requestId)) return true; }
+    for (const job of generationJobs.values()) { if (job.request_id === requestId || job.fanOut.some(submission => submission.request_id === requestId)) return true; }
+    return false;
+}
+
+async function handleFalWebhook(request: Request): Promise<Response> {
+    const body = await request.text();
+    let rejection: string | null;
+    try { rejection = await verifyFalWebhook(request, body); }
+    catch (e: any) {
+        log.error(`[Webhook] Could not load Fal's webhook keys: ${e.message}`);
+        return openAIErrorResponse(Status.ServiceUnavailable, { message: "Webhook verification is temporarily unavailable.", type: "server_error" });
+    }
+    if (rejection) {
+        log.warn(`[Webhook] Rejected callback: ${rejection}`);
+        incrementCounter('falproxy_fal_webhooks_total', { result: 'rejected' });
+        return openAIErrorResponse(Status.Unauthorized, { message: "Invalid webhook signature.", type: "authentication_error" });
+    }
+    let data: any = null;
+    try { data = JSON.parse(body); } catch (e) { /* handled below */ }
+    const signedRequestId = request.headers.get('X-Fal-Webhook-Request-Id');
+    if (typeof data?.request_id !== 'string' || (data.request_id !== signedRequestId && data.gateway_request_id !== signedRequestId)) return openAIErrorResponse(Status.BadRequest, { message: "Webhook body does not match its signed request ID.", type: "invalid_request_error" });
+
+    if (!isAwaitedFalRequest(data.request_id)) {
+        log.info(`[Webhook] Ignoring callback for Fal request ${data.request_id}, which no generation or job is waiting on`);
+        incrementCounter('falproxy_fal_webhooks_total', { result: 'ignored' });
+        return new Response(JSON.stringify({ received: true }));
+    }
+    const now = Date.now();
+    for (const [id, result] of falWebhookResults) { if (now - result.receivedAt > JOB_TTL_MS) falWebhookResults.delete(id); }
+    falWebhookResults.set(data.request_id, { status: String(data.status), payload: data.payload ?? null, error: data.error ?? data.payload_error ?? null, receivedAt: now });
+    incrementCounter('falproxy_fal_webhooks_total', { result: 'accepted' });
+    log.info(`[Webhook] Received ${data.status} for Fal request ${data.request_id}`);
+    falWebhookWaiters.get(data.request_id)?.();
+    return new Response(JSON.stringify({ received: true }));
+}
+
+// --- Usage Accounting ---
+// Every generation that reaches Fal is recorded in `usageRecords` and, when USAGE_LOG_FILE is set,
+// appended to that JSONL ledger so history survives restarts. MODEL_PRICES ("alias:usd_per_image,...")
+// is used to estimate spend. Async jobs are recorded as `pending` when they are submitted and their
+// row is updated once they finish; the ledger gets the new version, which replaces the earlier line
+// with the same request_id when it is loaded.
+interface UsageRecord {
+    timestamp: string; tenant: string; client_key_id: string; model: string; endpoint: string; operation: 'generation' | 'edit';
+    image_count: number; width: number | null; height: number | null; duration_ms: number; outcome: string; error_type: string | null;
+    fal_key: string | null; request_id: string | null; estimated_cost_usd: number | null;
+}
+interface UsageContext { tenant: string; clientKeyId: string; model: string; endpoint: string; operation: UsageRecord['operation']; startedAt: number; width: number | null; height: number | null; }
+const usageRecords: UsageRecord[] = [];
+const MODEL_PRICES = new Map<string, number>();
+let usageWriteQueue: Promise<void> = Promise.resolve();
+
+if (MODEL_PRICES_RAW) {
+    for (const pair of MODEL_PRICES_RAW.split(',').map(p => p.trim()).filter(p => p.length > 0)) {
+        const [model, price] = pair.split(':').map(part => part.trim());
+        if (!model || price === undefined || isNaN(parseFloat(price))) { log.error(`FATAL: Invalid MODEL_PRICES entry '${pair}'. Expected 'model:usd_per_image'.`); Deno.exit(1); }
+        MODEL_PRICES.set(model, parseFloat(price));
+    }
+}
+
+async function loadUsageLedger() {
+    if (!USAGE_LOG_FILE) return;
+    let content: string;
+    try { content = await Deno.readTextFile(USAGE_LOG_FILE); }
+    catch (error) { if (error instanceof Deno.errors.NotFound) return; throw error; }
+    const indexByRequestId = new Map<string, number>();
+    content.split('\n').filter(line => line.trim().length > 0).forEach((line, index) => {
+        let record: UsageRecord;
+        try { record = JSON.parse(line); }
+        catch (e) { log.warn(`[Usage] Skipping malformed ledger line ${index + 1} in ${USAGE_LOG_FILE}`); return; }
+        const previous = record.request_id ? indexByRequestId.get(record.request_id) : undefined;
+        if (previous !== undefined) { usageRecords[previous] = record; return; }
+        if (record.request_id) indexByRequestId.set(record.request_id, usageRecords.length);
+        usageRecords.push(record);
+    });
+}
+await loadUsageLedger();
+if (USAGE_LOG_FILE) log.info(`Loaded ${usageRecords.length} usage records from ${USAGE_LOG_FILE}`);
+
+function startUsage(client: ClientKey, model: string, operation: UsageRecord['operation'], requestedSize?: string): UsageContext {
+    const dimensions = parseSize(requestedSize);
+    return { tenant: client.tenant, clientKeyId: client.keyHash.slice(0, 12), model, endpoint: SUPPORTED_MODELS_MAP.get(model)?.endpoint || '', operation, startedAt: Date.now(), width: dimensions?.width ?? null, height: dimensions?.height ?? null };
+}
+
+// Appends a new row, or updates `existing` (keeping its timestamp) and appends its new version.
+function recordUsage(context: UsageContext, outcome: string, details: { imageCount?: number; submission?: FalSubmission; resultData?: any; errorType?: string | null } = {}, existing?: UsageRecord): UsageRecord {
+    const imageCount = details.imageCount ?? 0;
+    const firstImage = Array.isArray(details.resultData?.images) ? details.resultData.images[0] : undefined;
+    const price = MODEL_PRICES.get(context.model);
+    const record: UsageRecord = {
+        timestamp: existing?.timestamp ?? new Date().toISOString(), tenant: context.tenant, client_key_id: context.clientKeyId, model: context.model, endpoint: context.endpoint, operation: context.operation,
+        image_count: imageCount, width: firstImage?.width ?? context.width, height: firstImage?.height ?? context.height, duration_ms: Date.now() - context.startedAt,
+        outcome, error_type: details.errorType ?? null, fal_key: details.submission ? maskApiKey(details.submission.apiKey) : null, request_id: details.submission?.request_id ?? null,
+        estimated_cost_usd: price === undefined ? null : Math.round(price * imageCount * 1e6) / 1e6,
+    };
+    if (existing) Object.assign(existing, record); else usageRecords.push(record);
+    log.debug(existing ? "[Usage] Updated" : "[Usage] Recorded", { record });
+    if (USAGE_LOG_FILE) {
+        usageWriteQueue = usageWriteQueue
+            .then(() => Deno.writeTextFile(USAGE_LOG_FILE, JSON.stringify(record) + '\n', { append: true }))
+            .catch(error => log.error(`[Usage] Failed to append to ${USAGE_LOG_FILE}`, { error }));
+    }
+    return existing ?? record;
+}
+
+async function recordGenerationUsage(context: UsageContext, outcome: FalGenerationOutcome, numImages: number, existing?: UsageRecord) {
+    if (!outcome.errorResponse) { recordUsage(context, "succeeded", { imageCount: Math.min(numImages, outcome.imageUrls.length), submission: outcome.submission, resultData: outcome.resultData }, existing); return; }
+    let errorType: string | null = null;
+    try { const { error } = await outcome.errorResponse.clone().json(); errorType = error?.code ?? error?.type ?? null; } catch (e) { /* ignore */ }
+    recordUsage(context, errorType === "request_cancelled" ? "cancelled" : "failed", { submission: outcome.submission, errorType }, existing);
+}
+
+// --- Server-Sent Events Streaming ---
+// With `stream: true`, the generation is run inside a `text/event-stream` response that reports
+// Fal's queue position, status changes and logs while polling, then emits each final image.
+// A fanned-out request emits `submitted` once per Fal submission and progress for the first.
+const STEP_PROGRESS_PATTERN = /(\d+)\s*\/\s*(\d+)/;
+function streamGeneration(modelConfig: ModelConfig, falRequestPayloads: Record<string, any>[], prompt: string, numImages: number, responseFormat: ResponseFormat, usage: UsageContext, onFinish: () => void): Response {
+    const encoder = new TextEncoder();
+    let clientDisconnected = false;
+    const disconnect = new AbortController();
+    const stream = new ReadableStream<Uint8Array>({
+        async start(controller) {
+            const sendEvent = (event: string, data: unknown) => {
+                if (clientDisconnected) return;
+                controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+            };
+            try {
+                let lastStatus: string | undefined, lastQueuePosition: number | undefined, logsSent = 0;
+                const falOutcome = await runFalGeneration(modelConfig, falRequestPayloads, usage, 'stream', { signal: disconnect.signal, onSubmitted: (submission) => sendEvent('submitted', { id: submission.request_id }), onStatus: (statusData) => {
+                    if (statusData.status === "IN_QUEUE" && statusData.queue_position !== lastQueuePosition) {
+                        lastQueuePosition = statusData.queue_position;
+                        sendEvent('queue', { queue_position: statusData.queue_position ?? null });
+                    }
+                    if (statusData.status !== lastStatus) {
+                        lastStatus = statusData.status;
+                        sendEvent('progress', { status: String(statusData.status).toLowerCase() });
+                    }
+                    const logs: any[] = Array.isArray(statusData.logs) ? statusData.logs : [];
+                    for (const entry of logs.slice(logsSent)) {
+                        sendEvent('log', { message: entry?.message ?? '', timestamp: entry?.timestamp ?? null });
+                        const stepMatch = typeof entry?.message === 'string' ? entry.message.match(STEP_PROGRESS_PATTERN) : null;
+                        if (stepMatch && Number(stepMatch[2]) > 0) sendEvent('progress', { status: "in_progress", step: Number(stepMatch[1]), total_steps: Number(stepMatch[2]), progress: Math.min(1, Number(stepMatch[1]) / Number(stepMatch[2])) });
                     }
-                } else if (statusData.status === "FAILED" || statusData.status === "ERROR") {
-                    let failureReason = `Polling status indicated ${statusData.status}.`;
-                    try { const resultResponse = await fetch(response_url, { headers: { "Authorization": `Key ${apiKey}` } }); failureReason = await resultResponse.text(); } catch(e) {/* ignore */}
-                    return new Response(JSON.stringify({ error: { message: `Image generation failed: ${failureReason}`, type: "generation_failed" } }), { status: Status.InternalServerError });
-                }
+                    logsSent = Math.max(logsSent, logs.length);
+                } });
+                if (falOutcome.pending?.length) trackTimedOutGeneration(falOutcome.pending, { tenant: usage.tenant, model: usage.model, prompt, numImages, responseFormat, usage }, payloadImageSize(falRequestPayloads[0]));
+                else await recordGenerationUsage(usage, falOutcome, numImages);
+                const outcome = await applyNsfwPolicy(usage.tenant, falOutcome);
+                if (outcome.errorResponse) { sendEvent('error', await outcome.errorResponse.json()); return; }
+
+                const imageData = await buildImageResponseData(outcome.imageUrls.slice(0, numImages), prompt, responseFormat);
+                if (imageData.errorResponse) { sendEvent('error', await imageData.errorResponse.json()); return; }
+                imageData.data.forEach((item, index) => sendEvent('image', { index, ...item }));
+                const size = resultImageSize(outcome.resultData, payloadImageSize(falRequestPayloads[0]));
+                sendEvent('done', { created: Math.floor(Date.now() / 1000), ...(size ? { size } : {}), data: imageData.data });
+            } catch (e: any) {
+                log.error(`Unhandled exception in streamGeneration: ${e.toString()}`, { stack: e.stack });
+                recordUsage(usage, "failed", { errorType: "server_error" });
+                sendEvent('error', await openAIErrorResponse(Status.InternalServerError, { message: `Server error: ${e.toString()}`, type: "server_error" }).json());
+            } finally {
+                onFinish();
+                if (!clientDisconnected) controller.close();
             }
+        },
+        cancel() {
+            clientDisconnected = true;
+            disconnect.abort();
+            log.debug("[Stream] Client disconnected from event stream.");
+        },
+    });
+    return new Response(stream, { status: Status.OK, headers: { 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache', 'Connection': 'keep-alive' } });
+}
+
+// --- Async Job Tracking ---
+// Jobs submitted with `?async=true` are tracked by their Fal request_id so that status checks and
+// cancellation are sent with the same Fal key that submitted them. A fanned-out job is tracked by
+// its first submission, with the others kept in `fanOut`.
+// An async job holds its client's concurrency slot (`releaseSlot`) until Fal finishes it, it is
+// cancelled or it expires, and updates the `pending` usage row it was recorded with (`usageRecord`).
+interface GenerationJob extends FalSubmission { fanOut: FalSubmission[]; tenant: string; model: string; prompt: string; numImages: number; responseFormat: ResponseFormat; usage: UsageContext; payloadSize: string | null; usageRecord: UsageRecord; finished?: boolean; releaseSlot?: () => void; createdAt: number; }
+type NewGenerationJob = Omit<GenerationJob, keyof FalSubmission | 'fanOut' | 'payloadSize' | 'usageRecord' | 'finished' | 'createdAt'>;
+const generationJobs = new Map<string, GenerationJob>();
+const JOB_TTL_MS = 24 * 60 * 60 * 1000;
+
+function pruneExpiredJobs() {
+    const now = Date.now();
+    for (const [id, job] of generationJobs) {
+        if (now - job.createdAt <= JOB_TTL_MS) continue;
+        generationJobs.delete(id);
+        job.releaseSlot?.();
+        // Fal ran the job, so it stays in the ledger even though nobody collected the result.
+        if (!job.finished) recordUsage(job.usage, "expired", { imageCount: job.numImages, submission: job }, job.usageRecord);
+    }
+}
+
+// A sync or streaming generation that timed out keeps running at Fal, so it is tracked as a job
+// that the client can collect from /v1/jobs/{id} with the request_id in the timeout error. Like an
+// async job, it is recorded as `pending` and its usage row is updated when the job finishes.
+function trackTimedOutGeneration(pending: FalSubmission[], job: NewGenerationJob, payloadSize: string | null) {
+    const [submission, ...fanOut] = pending;
+    pruneExpiredJobs();
+    const usageRecord = recordUsage(job.usage, "pending", { imageCount: job.numImages, submission });
+    generationJobs.set(submission.request_id, { ...submission, fanOut, ...job, payloadSize, usageRecord, createdAt: Date.now() });
+    log.info(`[Jobs] Tracking timed-out generation ${submission.request_id} as a job for model ${job.model}`);
+}
+
+async function submitGenerationJob(modelConfig: ModelConfig, falRequestPayloads: Record<string, any>[], job: NewGenerationJob): Promise<Response> {
+    const submitOutcomes = await Promise.all(falRequestPayloads.map(falRequestPayload => submitFalRequest(modelConfig, falRequestPayload)));
+    const [submission, ...fanOut] = submitOutcomes.flatMap(outcome => outcome.submission ? [outcome.submission] : []);
+    if (!submission) { const { errorResponse } = submitOutcomes[0]; job.releaseSlot?.(); await recordGenerationUsage(job.usage, { imageUrls: [], errorResponse }, job.numImages); return errorResponse!; }
+    if (fanOut.length + 1 < submitOutcomes.length) log.warn(`[Fan-out] ${submitOutcomes.length - fanOut.length - 1} of ${submitOutcomes.length} submissions for job ${submission.request_id} failed; continuing with the rest.`);
+    pruneExpiredJobs();
+    const createdAt = Date.now();
+    const usageRecord = recordUsage(job.usage, "pending", { imageCount: job.numImages, submission });
+    generationJobs.set(submission.request_id, { ...submission, fanOut, ...job, payloadSize: payloadImageSize(falRequestPayloads[0]), usageRecord, createdAt });
+    log.debug(`[Jobs] Tracking async job ${submission.request_id} for model ${job.model}`);
+    watchJobSlot(generationJobs.get(submission.request_id)!);
+    return new Response(JSON.stringify({ id: submission.request_id, object: "image.generation.job", status: "queued", model: job.model, created: Math.floor(createdAt / 1000) }), { status: Status.Accepted });
+}
+
+// Frees an async job's concurrency slot as soon as Fal has finished every submission, whether or not
+// the client has collected the result. Webhook callbacks end the wait early; otherwise the job's
+// status is checked in the background with the usual polling backoff. A status check that fails
+// transiently is tried again, but one Fal rejects (e.g. an unknown request) counts as finished.
+function watchJobSlot(job: GenerationJob) {
+    const isWatched = () => generationJobs.get(job.request_id) === job && !job.finished && Date.now() - job.createdAt <= JOB_TTL_MS;
+    const isDone = async (submission: FalSubmission) => {
+        if (falWebhookResults.has(submission.request_id)) return true;
+        incrementCounter('falproxy_poll_attempts_total', { endpoint: submission.endpoint });
+        try {
+            const statusResponse = await fetchFalWithRetry('status', submission.endpoint, submission.status_url, { headers: { "Authorization": `Key ${submission.apiKey}` } });
+            if (!statusResponse.ok) { await statusResponse.body?.cancel(); return !isTransientFalStatus(statusResponse.status); }
+            const { status } = await statusResponse.json();
+            return status !== "IN_QUEUE" && status !== "IN_PROGRESS";
+        } catch (e: any) {
+            log.debug(`[Jobs] Could not check the status of ${submission.request_id}: ${e.message}`);
+            return false;
+        }
+    };
+    (async () => {
+        const running = new Set<FalSubmission>([job, ...job.fanOut]);
+        let interval = FAL_WEBHOOK_URL ? FAL_WEBHOOK_FALLBACK_POLL_MS : POLL_INITIAL_INTERVAL_MS;
+        while (isWatched()) {
+            const wake = new AbortController();
+            const waits = Array.from(running, submission => waitForFalWebhook(submission.request_id, interval, wake.signal));
+            await Promise.race(waits);
+            wake.abort();
+            await Promise.all(waits);
+            if (!isWatched()) return;
+            for (const submission of running) { if (await isDone(submission)) running.delete(submission); }
+            if (running.size === 0) break;
+            if (!FAL_WEBHOOK_URL) interval = Math.min(POLL_MAX_INTERVAL_MS, interval * POLL_BACKOFF_FACTOR);
         }
-        if (imageUrls.length === 0) return new Response(JSON.stringify({ error: { message: "Image generation timed out or returned no images.", type: "generation_timeout" } }), { status: Status.InternalServerError });
-        const responseData = { created: Math.floor(Date.now() / 1000), data: imageUrls.slice(0, numImages).map(imgUrl => ({ url: imgUrl, revised_prompt: prompt })) };
+        if (running.size > 0) return;
+        log.debug(`[Jobs] Fal finished job ${job.request_id}; releasing its concurrency slot`);
+        job.releaseSlot?.();
+    })().catch((e: any) => log.error(`[Jobs] Watching job ${job.request_id} failed: ${e.message}`, { stack: e.stack }));
+}
+
+// --- Endpoint Handlers ---
+// Generation and edit requests share everything after their bodies are read: model checks, presets,
+// size mapping, content policy, fan-out, rate limiting and the async, streaming or sync run. Each
+// handler supplies its own Fal inputs (the seed, or the source image and mask) and model checks.
+interface ImageRequest {
+    operation: UsageRecord['operation'];
+    prompt: unknown; model: string; n: unknown; size: string | undefined; responseFormat: unknown; stream: boolean; quality: unknown; style: unknown; falParams: unknown;
+    checkModel?: (modelConfig: ModelConfig, modelName: string) => Response | null;
+    falInputs: () => Promise<Record<string, any>>;
+}
+// Inline images are logged by size rather than content.
+function describeFalPayload(falRequestPayload: Record<string, any>): Record<string, any> {
+    return Object.fromEntries(Object.entries(falRequestPayload).map(([key, value]) => [key, typeof value === 'string' && value.startsWith('data:') ? `<data URI, ${value.length} chars>` : value]));
+}
+
+async function handleImageRequest(request: Request, client: ClientKey, imageRequest: ImageRequest): Promise<Response> {
+    const { operation, prompt, model: modelName, size: requestedSize, stream: streamMode } = imageRequest;
+    const asyncMode = new URL(request.url).searchParams.get('async') === 'true';
+    if (!prompt || typeof prompt !== 'string' || prompt.trim() === "") return openAIErrorResponse(Status.BadRequest, { message: "A 'prompt' is required.", type: "invalid_request_error", param: "prompt" });
+    const responseFormat = parseResponseFormat(imageRequest.responseFormat);
+    if (!responseFormat) return openAIErrorResponse(Status.BadRequest, { message: "'response_format' must be either 'url' or 'b64_json'.", type: "invalid_request_error", param: "response_format" });
+    if (streamMode && asyncMode) return openAIErrorResponse(Status.BadRequest, { message: "'stream' cannot be combined with async mode.", type: "invalid_request_error", param: "stream" });
+
+    getRequestContext(request).model = modelName;
+    if (!isModelAllowed(client, modelName)) return openAIErrorResponse(Status.Forbidden, { message: `Your API key does not have access to model '${modelName}'.`, type: "permission_error", param: "model" });
+    const modelConfig = await getModelConfig(modelName);
+    if (!modelConfig) return openAIErrorResponse(Status.NotFound, { message: `Model '${modelName}' not found or its configuration failed to load.`, type: "invalid_request_error", param: "model" });
+    const modelViolation = imageRequest.checkModel?.(modelConfig, modelName);
+    if (modelViolation) return modelViolation;
+    const modelDefinition = SUPPORTED_MODELS_MAP.get(modelName)!;
+    if (!isSizeAllowed(modelDefinition, requestedSize)) return openAIErrorResponse(Status.BadRequest, { message: `Size '${requestedSize}' is not supported by model '${modelName}'. Supported sizes: ${modelDefinition.allowedSizes!.join(', ')}.`, type: "invalid_request_error", param: "size" });
+    const numImages = Math.max(1, Math.min(modelDefinition.maxN, parseInt(String(imageRequest.n ?? '')) || 1));
+    const presets = resolveParameterPresets(modelDefinition, { quality: imageRequest.quality, style: imageRequest.style });
+    if (presets.error) return openAIErrorResponse(Status.BadRequest, { message: presets.error, type: "invalid_request_error", param: presets.param });
+    const falParams = validateFalParams(modelConfig, modelName, imageRequest.falParams);
+    if (falParams.error) return openAIErrorResponse(Status.BadRequest, { message: falParams.error, type: "invalid_request_error", param: falParams.param });
+
+    const falRequestPayload: Record<string, any> = { enable_safety_checker: false, ...modelDefinition.defaults, prompt, num_images: numImages, ...await imageRequest.falInputs() };
+    applyParameterPresets(falRequestPayload, modelConfig, presets.presets);
+    applySizeToPayload(falRequestPayload, modelConfig, requestedSize, modelDefinition.sizeMultiple);
+    Object.assign(falRequestPayload, falParams.params);
+    const promptViolation = enforcePromptPolicy(client.tenant, modelConfig, falRequestPayload);
+    if (promptViolation) return promptViolation;
+    const falRequestPayloads = planFalSubmissions(modelConfig, falRequestPayload, numImages);
+    const payloadViolation = falRequestPayloads.map(payload => validateFalPayload(modelConfig, payload, Object.keys(falParams.params))).find(violation => violation !== null);
+    if (payloadViolation) return openAIErrorResponse(Status.BadRequest, { message: payloadViolation.message, type: "invalid_request_error", param: payloadViolation.param });
+    log.debug("Constructed Fal Payload", { payload: describeFalPayload(falRequestPayload) });
+
+    // Expired async jobs give back their concurrency slots before this request is counted.
+    pruneExpiredJobs();
+    const rateLimit = acquireRateLimit(request, client, numImages);
+    if (rateLimit.errorResponse) return rateLimit.errorResponse;
+    const usage = startUsage(client, modelName, operation, requestedSize);
+    // Streaming responses and async jobs outlive this handler, so they release their concurrency slot themselves.
+    let slotHandedOff = false;
+    try {
+        if (asyncMode) { slotHandedOff = true; return await submitGenerationJob(modelConfig, falRequestPayloads, { tenant: client.tenant, model: modelName, prompt: falRequestPayload.prompt, numImages, responseFormat, usage, releaseSlot: rateLimit.release }); }
+        if (streamMode) { slotHandedOff = true; return streamGeneration(modelConfig, falRequestPayloads, falRequestPayload.prompt, numImages, responseFormat, usage, rateLimit.release); }
+        const outcome = await runFalGeneration(modelConfig, falRequestPayloads, usage, 'sync', { signal: request.signal });
+        if (outcome.pending?.length) trackTimedOutGeneration(outcome.pending, { tenant: client.tenant, model: modelName, prompt: falRequestPayload.prompt, numImages, responseFormat, usage }, payloadImageSize(falRequestPayloads[0]));
+        else await recordGenerationUsage(usage, outcome, numImages);
+        // Usage reflects what Fal generated; the tenant's content policy only changes what is returned.
+        const { imageUrls, errorResponse } = await applyNsfwPolicy(client.tenant, outcome);
+        if (errorResponse) return errorResponse;
+        const imageData = await buildImageResponseData(imageUrls.slice(0, numImages), falRequestPayload.prompt, responseFormat);
+        if (imageData.errorResponse) return imageData.errorResponse;
+        const size = resultImageSize(outcome.resultData, payloadImageSize(falRequestPayloads[0]));
+        const responseData = { created: Math.floor(Date.now() / 1000), ...(size ? { size } : {}), data: imageData.data };
         return new Response(JSON.stringify(responseData), { status: Status.OK });
     } catch (e: any) {
-        console.error(`Unhandled exception in handleImageGenerations: ${e.toString()}`, e.stack);
-        return new Response(JSON.stringify({ error: { message: `Server error: ${e.toString()}`, type: "server_error" } }), { status: Status.InternalServerError });
+        log.error(`Unhandled exception in handleImageRequest (${operation}): ${e.toString()}`, { stack: e.stack });
+        rateLimit.release();
+        recordUsage(usage, "failed", { errorType: "server_error" });
+        return openAIErrorResponse(Status.InternalServerError, { message: `Server error: ${e.toString()}`, type: "server_error" });
+    } finally {
+        if (!slotHandedOff) rateLimit.release();
+    }
+}
+
+async function handleImageGenerations(request: Request): Promise<Response> {
+    log.debug("--- New Image Generation Request ---");
+    const authResult = await extractAndValidateApiKey(request);
+    if (!authResult.valid) return openAIErrorResponse(Status.Unauthorized, { message: authResult.error || "Authentication failed.", type: "authentication_error" });
+    let openaiRequestPayload;
+    try { openaiRequestPayload = await request.json(); log.debug("Parsed OpenAI Request Payload", { payload: openaiRequestPayload }); }
+    catch (error) { return openAIErrorResponse(Status.BadRequest, { message: "Missing or invalid JSON request body.", type: "invalid_request_error" }); }
+
+    const { prompt, model: requestedModel, n, size, seed, response_format: responseFormat, stream, quality, style, fal_params: requestedFalParams, extra_body: requestedExtraBody } = openaiRequestPayload;
+    return await handleImageRequest(request, authResult.client!, {
+        operation: 'generation', prompt, model: requestedModel || "flux-dev", n, size, responseFormat, stream: stream === true, quality, style, falParams: requestedFalParams ?? requestedExtraBody,
+        falInputs: async () => ({ seed }),
+    });
+}
+
+// Accepts OpenAI's multipart `images.edit()` form and maps the source image and mask onto the
+// model's `image_url`/`mask_url` inputs as inline data URIs.
+async function handleImageEdits(request: Request): Promise<Response> {
+    log.debug("--- New Image Edit Request ---");
+    const authResult = await extractAndValidateApiKey(request);
+    if (!authResult.valid) return openAIErrorResponse(Status.Unauthorized, { message: authResult.error || "Authentication failed.", type: "authentication_error" });
+    let form: FormData;
+    try { form = await request.formData(); }
+    catch (error) { return openAIErrorResponse(Status.BadRequest, { message: "Missing or invalid multipart/form-data request body.", type: "invalid_request_error" }); }
+
+    const prompt = form.get('prompt');
+    const image = form.get('image') ?? form.get('image[]');
+    const mask = form.get('mask');
+    const requestedModel = form.get('model');
+    const requestedSize = form.get('size');
+    const requestedFalParams = form.get('fal_params');
+    log.debug("Parsed OpenAI Edit Form", { prompt, model: requestedModel, n: form.get('n'), size: requestedSize, image: image instanceof File ? `${image.name} (${image.size} bytes)` : image, mask: mask instanceof File ? `${mask.name} (${mask.size} bytes)` : mask });
+
+    if (!(image instanceof File) || image.size === 0) return openAIErrorResponse(Status.BadRequest, { message: "An 'image' file is required.", type: "invalid_request_error", param: "image" });
+    if (mask !== null && !(mask instanceof File)) return openAIErrorResponse(Status.BadRequest, { message: "The 'mask' field must be a file.", type: "invalid_request_error", param: "mask" });
+    // Multipart forms carry `fal_params` as a JSON-encoded string.
+    let falParams: unknown;
+    try { falParams = typeof requestedFalParams === 'string' && requestedFalParams ? JSON.parse(requestedFalParams) : undefined; }
+    catch (error) { return openAIErrorResponse(Status.BadRequest, { message: "'fal_params' must be a JSON-encoded object.", type: "invalid_request_error", param: "fal_params" }); }
+
+    return await handleImageRequest(request, authResult.client!, {
+        operation: 'edit', prompt, model: typeof requestedModel === 'string' && requestedModel ? requestedModel : "flux-dev", n: form.get('n'), size: typeof requestedSize === 'string' && requestedSize ? requestedSize : undefined,
+        responseFormat: form.get('response_format'), stream: form.get('stream') === 'true', quality: form.get('quality') ?? undefined, style: form.get('style') ?? undefined, falParams,
+        checkModel: (modelConfig, modelName) => {
+            if (!modelConfig.supports_image_url_param) return openAIErrorResponse(Status.BadRequest, { message: `Model '${modelName}' does not support image edits: its schema has no 'image_url' input.`, type: "invalid_request_error", param: "model" });
+            if (mask && !modelConfig.supports_mask_url_param) return openAIErrorResponse(Status.BadRequest, { message: `Model '${modelName}' does not support masks: its schema has no 'mask_url' input.`, type: "invalid_request_error", param: "mask" });
+            return null;
+        },
+        falInputs: async () => ({ image_url: await fileToDataUri(image), ...(mask ? { mask_url: await fileToDataUri(mask) } : {}) }),
+    });
+}
+
+async function handleGetJob(request: Request, jobId: string): Promise<Response> {
+    const authResult = await extractAndValidateApiKey(request);
+    if (!authResult.valid) return openAIErrorResponse(Status.Unauthorized, { message: authResult.error || "Authentication failed.", type: "authentication_error" });
+    const job = generationJobs.get(jobId);
+    if (!job || job.tenant !== authResult.client!.tenant) return openAIErrorResponse(Status.NotFound, { message: `No job found with id '${jobId}'.`, type: "invalid_request_error" });
+    const jobInfo = { id: jobId, object: "image.generation.job", model: job.model, created: Math.floor(job.createdAt / 1000) };
+
+    try {
+        const submissions: FalSubmission[] = [job, ...job.fanOut];
+        // Submissions whose webhook has already arrived need no status check.
+        const webhookResults = submissions.map(submission => falWebhookResults.get(submission.request_id));
+        const statusResponses = await Promise.all(submissions.map((submission, index) => webhookResults[index] ? null : fetchFalWithRetry('status', submission.endpoint, submission.status_url, { headers: { "Authorization": `Key ${submission.apiKey}` } })));
+        const failedStatusResponse = statusResponses.find(response => response && !response.ok);
+        if (failedStatusResponse) return falErrorResponse(failedStatusResponse.status, await failedStatusResponse.text(), "Fal API status error", { requestId: jobId });
+        const statuses: any[] = await Promise.all(statusResponses.map((response, index) => response ? response.json() : { status: webhookResults[index]!.status === 'OK' ? "COMPLETED" : "FAILED" }));
+        log.debug(`[Jobs] Status for ${jobId}`, { status: statuses.length === 1 ? statuses[0] : statuses });
+
+        // A fanned-out job is queued while all of its submissions are, and in progress until the last one finishes.
+        const pending = statuses.filter(statusData => statusData.status === "IN_QUEUE" || statusData.status === "IN_PROGRESS");
+        if (pending.length === statuses.length && pending.every(statusData => statusData.status === "IN_QUEUE")) {
+            const queuePositions = pending.map(statusData => statusData.queue_position).filter(position => typeof position === 'number');
+            return new Response(JSON.stringify({ ...jobInfo, status: "queued", queue_position: queuePositions.length > 0 ? Math.min(...queuePositions) : null }));
+        }
+        if (pending.length > 0) return new Response(JSON.stringify({ ...jobInfo, status: "in_progress" }));
+
+        const outcomes: FalGenerationOutcome[] = [];
+        for (const [index, submission] of submissions.entries()) {
+            const webhookResult = webhookResults[index];
+            if (webhookResult) { outcomes.push(await falWebhookOutcome(submission, webhookResult)); continue; }
+            if (statuses[index].status !== "COMPLETED") { outcomes.push(await falFailureOutcome(submission, statuses[index].status)); continue; }
+            // A result that could not be fetched is reported without failing the job, so the client can ask again.
+            const resultOutcome = await fetchFalResultOutcome(submission);
+            if (resultOutcome.errorResponse && !resultOutcome.resultData) return resultOutcome.errorResponse;
+            outcomes.push(resultOutcome);
+        }
+        const falOutcome = mergeFalOutcomes(outcomes);
+        if (!job.finished) { job.finished = true; job.releaseSlot?.(); await recordGenerationUsage(job.usage, falOutcome, job.numImages, job.usageRecord); }
+        const outcome = await applyNsfwPolicy(job.tenant, falOutcome);
+        if (outcome.errorResponse) return new Response(JSON.stringify({ ...jobInfo, status: "failed", error: (await outcome.errorResponse.json()).error }));
+        const imageData = await buildImageResponseData(outcome.imageUrls.slice(0, job.numImages), job.prompt, job.responseFormat);
+        if (imageData.errorResponse) return imageData.errorResponse;
+        const size = resultImageSize(outcome.resultData, job.payloadSize);
+        return new Response(JSON.stringify({ ...jobInfo, status: "succeeded", result: { created: Math.floor(Date.now() / 1000), ...(size ? { size } : {}), data: imageData.data } }));
+    } catch (e: any) {
+        log.error(`Unhandled exception in handleGetJob: ${e.toString()}`, { stack: e.stack });
+        return openAIErrorResponse(Status.InternalServerError, { message: `Server error: ${e.toString()}`, type: "server_error" });
+    }
+}
+
+async function handleCancelJob(request: Request, jobId: string): Promise<Response> {
+    const authResult = await extractAndValidateApiKey(request);
+    if (!authResult.valid) return openAIErrorResponse(Status.Unauthorized, { message: authResult.error || "Authentication failed.", type: "authentication_error" });
+    const job = generationJobs.get(jobId);
+    if (!job || job.tenant !== authResult.client!.tenant) return openAIErrorResponse(Status.NotFound, { message: `No job found with id '${jobId}'.`, type: "invalid_request_error" });
+
+    try {
+        const cancelResults = await Promise.all([job, ...job.fanOut].map(async submission => {
+            const cancelResponse = await fetch(submission.cancel_url, { method: 'PUT', headers: { "Authorization": `Key ${submission.apiKey}` } });
+            return { status: cancelResponse.status, ok: cancelResponse.ok, text: await cancelResponse.text() };
+        }));
+        cancelResults.forEach(result => log.debug(`[Jobs] Cancel response for ${jobId}: ${result.status} ${result.text}`));
+        const upstreamError = cancelResults.find(result => !result.ok && result.status !== Status.BadRequest);
+        if (upstreamError) return falErrorResponse(upstreamError.status, upstreamError.text, "Fal API cancel error", { requestId: jobId });
+        // Only refuse when nothing could be cancelled; a fanned-out job may have some submissions already finished.
+        if (cancelResults.every(result => result.status === Status.BadRequest)) return openAIErrorResponse(Status.Conflict, { message: `Job '${jobId}' can no longer be cancelled: ${cancelResults[0].text}`, type: "invalid_request_error" });
+        generationJobs.delete(jobId);
+        job.releaseSlot?.();
+        if (!job.finished) { job.finished = true; recordUsage(job.usage, "cancelled", { submission: job }, job.usageRecord); }
+        return new Response(JSON.stringify({ id: jobId, object: "image.generation.job", model: job.model, status: "cancelled" }));
+    } catch (e: any) {
+        log.error(`Unhandled exception in handleCancelJob: ${e.toString()}`, { stack: e.stack });
+        return openAIErrorResponse(Status.InternalServerError, { message: `Server error: ${e.toString()}`, type: "server_error" });
+    }
+}
+
+// Aggregates usage for one tenant, or for every tenant when `tenant` is null (GET /admin/usage).
+// `start`/`end` accept ISO dates or timestamps (date-only `end` values include the whole day);
+// `group_by` is a comma-separated list of USAGE_GROUP_FIELDS.
+const USAGE_GROUP_FIELDS = ['tenant', 'client_key_id', 'model', 'endpoint', 'operation', 'outcome', 'fal_key', 'day'] as const;
+type UsageGroupField = typeof USAGE_GROUP_FIELDS[number];
+function parseUsageDate(value: string | null, endOfDay: boolean): number | null | undefined {
+    if (!value) return undefined;
+    if (/^\d{4}-\d{2}-\d{2}$/.test(value)) { const dayStart = Date.parse(`${value}T00:00:00Z`); return isNaN(dayStart) ? null : endOfDay ? dayStart + DAY_MS - 1 : dayStart; }
+    const timestamp = Date.parse(value);
+    return isNaN(timestamp) ? null : timestamp;
+}
+
+function summarizeUsage(request: Request, tenant: string | null): Response {
+    const url = new URL(request.url);
+    const start = parseUsageDate(url.searchParams.get('start'), false);
+    const end = parseUsageDate(url.searchParams.get('end'), true);
+    if (start === null) return openAIErrorResponse(Status.BadRequest, { message: "'start' must be an ISO 8601 date or timestamp.", type: "invalid_request_error", param: "start" });
+    if (end === null) return openAIErrorResponse(Status.BadRequest, { message: "'end' must be an ISO 8601 date or timestamp.", type: "invalid_request_error", param: "end" });
+    const groupBy = (url.searchParams.get('group_by') || '').split(',').map(f => f.trim()).filter(f => f.length > 0);
+    const invalidGroup = groupBy.find(f => !(USAGE_GROUP_FIELDS as readonly string[]).includes(f));
+    if (invalidGroup) return openAIErrorResponse(Status.BadRequest, { message: `Cannot group by '${invalidGroup}'. Supported fields: ${USAGE_GROUP_FIELDS.join(', ')}.`, type: "invalid_request_error", param: "group_by" });
+
+    const groups = new Map<string, Record<string, any>>();
+    for (const record of usageRecords) {
+        const timestamp = Date.parse(record.timestamp);
+        if ((tenant !== null && record.tenant !== tenant) || (start !== undefined && timestamp < start) || (end !== undefined && timestamp > end)) continue;
+        const groupValues: Record<string, string | null> = {};
+        for (const field of groupBy as UsageGroupField[]) groupValues[field] = field === 'day' ? record.timestamp.slice(0, 10) : record[field];
+        const groupKey = JSON.stringify(groupValues);
+        let row = groups.get(groupKey);
+        if (!row) { row = { ...groupValues, requests: 0, succeeded: 0, failed: 0, uncollected: 0, images: 0, total_duration_ms: 0, estimated_cost_usd: null }; groups.set(groupKey, row); }
+        row.requests++;
+        // Async jobs that are still running or expired uncollected count the images they asked Fal for.
+        if (record.outcome === 'succeeded') row.succeeded++; else if (record.outcome === 'pending' || record.outcome === 'expired') row.uncollected++; else row.failed++;
+        row.images += record.image_count;
+        row.total_duration_ms += record.duration_ms;
+        if (record.estimated_cost_usd !== null) row.estimated_cost_usd = Math.round(((row.estimated_cost_usd ?? 0) + record.estimated_cost_usd) * 1e6) / 1e6;
     }
+    const data = Array.from(groups.values()).map(({ total_duration_ms, ...row }) => ({ ...row, avg_duration_ms: row.requests > 0 ? Math.round(total_duration_ms / row.requests) : 0 }));
+    return new Response(JSON.stringify({ object: "usage", tenant, start: start !== undefined ? new Date(start).toISOString() : null, end: end !== undefined ? new Date(end).toISOString() : null, group_by: groupBy, data }));
 }
 
-async function listModels(): Promise<Response> {
-    const modelData = Array.from(SUPPORTED_MODELS_MAP.keys()).map(id => ({ id, object: "model", created: Math.floor(Date.now() / 1000) - Math.floor(Math.random() * 3000000), owned_by: "fal-openai-adapter-deno", permission: [], root: id, parent: null }));
+async function handleUsage(request: Request): Promise<Response> {
+    const authResult = await extractAndValidateApiKey(request);
+    if (!authResult.valid) return openAIErrorResponse(Status.Unauthorized, { message: authResult.error || "Authentication failed.", type: "authentication_error" });
+    return summarizeUsage(request, authResult.client!.tenant);
+}
+
+async function listModels(request: Request): Promise<Response> {
+    // Anonymous callers see every model; authenticated tenants only see the models they may use.
+    const authResult = request.headers.has('Authorization') ? await extractAndValidateApiKey(request) : null;
+    const modelNames = Array.from(SUPPORTED_MODELS_MAP.keys()).filter(name => !authResult?.client || isModelAllowed(authResult.client, name));
+    const modelData = modelNames.map(id => {
+        const { displayName, description, tags } = SUPPORTED_MODELS_MAP.get(id)!;
+        return { id, object: "model", created: Math.floor(Date.now() / 1000) - Math.floor(Math.random() * 3000000), owned_by: "fal-openai-adapter-deno", permission: [], root: id, parent: null, ...(displayName ? { display_name: displayName } : {}), ...(description ? { description } : {}), ...(tags.length > 0 ? { tags } : {}) };
+    });
     return new Response(JSON.stringify({ object: "list", data: modelData }));
 }
 
+function handleMetrics(request: Request): Response {
+    if (METRICS_TOKEN && request.headers.get('Authorization') !== `Bearer ${METRICS_TOKEN}`) return openAIErrorResponse(Status.Unauthorized, { message: "Invalid or missing metrics token.", type: "authentication_error" });
+    return new Response(renderMetrics(), { headers: { 'Content-Type': 'text/plain; version=0.0.4; charset=utf-8' } });
+}
+
+// --- Health Checks ---
+// `/health/live` only reports that the process is serving requests. `/health/ready` returns 503
+// unless at least one model has a usable config and at least one Fal key is out of cooldown.
+// With HEALTH_CHECK_FAL_KEYS=true, keys must also pass a status lookup against the Fal queue, which
+// rejects invalid keys with 401/403; results are cached for FAL_KEY_CHECK_INTERVAL_MS.
+const HEALTH_CHECK_FAL_KEYS = Deno.env.get("HEALTH_CHECK_FAL_KEYS")?.toLowerCase() === 'true';
+const FAL_KEY_CHECK_INTERVAL_MS = 5 * 60 * 1000;
+const falKeyChecks = new Map<string, { valid: boolean; checkedAt: number }>();
+
+// Resolves to whether Fal accepted the key, or null if Fal could not be reached.
+async function checkFalKey(key: string, endpointId: string): Promise<boolean | null> {
+    const previous = falKeyChecks.get(key);
+    if (previous && Date.now() - previous.checkedAt < FAL_KEY_CHECK_INTERVAL_MS) return previous.valid;
+    try {
+        const response = await fetch(`https://queue.fal.run/${endpointId}/requests/00000000-0000-0000-0000-000000000000/status`, { headers: { "Authorization": `Key ${key}` } });
+        await response.body?.cancel();
+        const valid = response.status !== Status.Unauthorized && response.status !== Status.Forbidden;
+        if (!valid) reportKeyFailure(key, response.status, `HTTP ${response.status} on health check`);
+        falKeyChecks.set(key, { valid, checkedAt: Date.now() });
+        return valid;
+    } catch (error) {
+        log.warn(`[Health] Could not check Fal key ${maskApiKey(key)}: ${error instanceof Error ? error.message : error}`);
+        return null;
+    }
+}
+
+async function handleReadiness(): Promise<Response> {
+    const now = Date.now();
+    const models = Object.fromEntries(Array.from(SUPPORTED_MODELS_MAP.keys(), name => {
+        const cached = modelConfigCache.get(name);
+        const status = !cached ? 'unavailable' : now - cached.fetchedAt < CACHE_TTL_MS ? 'ok' : 'stale';
+        return [name, { status, cache_age_seconds: cached && cached.fetchedAt > 0 ? Math.round((now - cached.fetchedAt) / 1000) : null }];
+    }));
+    const checkEndpoint = SUPPORTED_MODELS_MAP.values().next().value?.endpoint;
+    const keyChecks = HEALTH_CHECK_FAL_KEYS && checkEndpoint ? await Promise.all(falKeyPool.map(state => checkFalKey(state.key, checkEndpoint))) : null;
+    // Failed key checks put keys on cooldown, so cooldowns are read after them.
+    const coolingDown = falKeyPool.filter(state => state.cooldownUntil > Date.now());
+    const availableKeys = falKeyPool.filter((state, index) => !coolingDown.includes(state) && (!keyChecks || keyChecks[index] === true));
+    const falKeys = {
+        total: falKeyPool.length, available: availableKeys.length, cooling_down: coolingDown.length,
+        ...(keyChecks ? { invalid: keyChecks.filter(valid => valid === false).length, unreachable: keyChecks.filter(valid => valid === null).length } : {}),
+    };
+
+    const reasons: string[] = [];
+    if (!Object.values(models).some(model => model.status !== 'unavailable')) reasons.push("No model has a usable config.");
+    if (availableKeys.length === 0) reasons.push("No Fal key is available.");
+    return new Response(JSON.stringify({ status: reasons.length === 0 ? "ready" : "not_ready", ...(reasons.length > 0 ? { reasons } : {}), checks: { models, fal_keys: falKeys } }), { status: reasons.length === 0 ? Status.OK : Status.ServiceUnavailable });
+}
+
+// --- Configuration Reload ---
+// Models, Fal keys and client keys are reloaded on SIGHUP and, unless CONFIG_WATCH=false, whenever
+// .env, MODELS_FILE or CLIENT_KEYS_FILE change on disk. The new configuration is fully loaded and
+// validated before anything is swapped, so a broken edit leaves the running one in place.
+// Generations already in flight keep the model config and Fal key they started with.
+const CONFIG_WATCH = Deno.env.get("CONFIG_WATCH")?.toLowerCase() !== 'false';
+const CONFIG_WATCH_DEBOUNCE_MS = 500;
+let configReloadQueue: Promise<void> = Promise.resolve();
+
+function diffKeys<V>(before: Map<string, V>, after: Map<string, V>, isChanged: (a: V, b: V) => boolean) {
+    return {
+        added: Array.from(after.keys()).filter(key => !before.has(key)),
+        removed: Array.from(before.keys()).filter(key => !after.has(key)),
+        changed: Array.from(after.keys()).filter(key => before.has(key) && isChanged(before.get(key)!, after.get(key)!)),
+    };
+}
+
+// Reloads are queued so that a signal arriving during a file-triggered reload cannot interleave with it.
+// Resolves to the reason the new configuration was rejected, or null once it has been applied.
+function reloadConfiguration(trigger: string): Promise<string | null> {
+    const reload = configReloadQueue.then(() => applyConfigurationReload(trigger));
+    configReloadQueue = reload.then(() => undefined, () => undefined);
+    return reload;
+}
+
+async function applyConfigurationReload(trigger: string): Promise<string | null> {
+    log.info(`[Config Reload] Reloading configuration (${trigger})...`);
+    let next;
+    try {
+        const dotenv = await load();
+        const env = (name: string): string | undefined => PROCESS_ENV[name] ?? dotenv[name];
+        const settings = { customAccessKey: env("CUSTOM_ACCESS_KEY"), clientKeysFile: env("CLIENT_KEYS_FILE"), modelsFile: env("MODELS_FILE"), supportedModelsRaw: env("SUPPORTED_MODELS") };
+        if (!settings.customAccessKey && !settings.clientKeysFile) throw new Error("Neither CUSTOM_ACCESS_KEY nor CLIENT_KEYS_FILE is set.");
+        const falKeys = parseAiKeys(env("AI_KEYS") || '', env("AI_KEY_WEIGHTS") || '');
+        const models = await loadModelCatalog(settings.modelsFile, settings.supportedModelsRaw);
+        if (models.size === 0) throw new Error(settings.modelsFile ? `MODELS_FILE '${settings.modelsFile}' defines no models.` : "SUPPORTED_MODELS is not set or is invalid.");
+        const clientStore = await loadClientKeys(settings.customAccessKey, settings.clientKeysFile, models);
+        next = { ...settings, falKeys, models, clientStore };
+    } catch (error) {
+        const reason = error instanceof Error ? error.message : String(error);
+        log.error(`[Config Reload] Rejected new configuration, keeping the current one: ${reason}`);
+        incrementCounter('falproxy_config_reloads_total', { result: 'rejected' });
+        return reason;
+    }
+
+    const modelDiff = diffKeys(SUPPORTED_MODELS_MAP, next.models, (a, b) => JSON.stringify(a) !== JSON.stringify(b));
+    const falKeyDiff = diffKeys(new Map(falKeyPool.map(state => [state.key, state.weight])), new Map(next.falKeys.map(entry => [entry.key, entry.weight])), (a, b) => a !== b);
+    const clientKeyDiff = diffKeys(CLIENT_KEYS, next.clientStore.clientKeys, (a, b) => JSON.stringify(a) !== JSON.stringify(b));
+    const endpointChanged = modelDiff.changed.filter(alias => SUPPORTED_MODELS_MAP.get(alias)!.endpoint !== next.models.get(alias)!.endpoint);
+
+    replaceMapContents(SUPPORTED_MODELS_MAP, next.models);
+    replaceMapContents(CLIENT_KEYS, next.clientStore.clientKeys);
+    replaceMapContents(TENANT_RATE_LIMITS, next.clientStore.tenantRateLimits);
+    replaceMapContents(TENANT_CONTENT_POLICIES, next.clientStore.tenantContentPolicies);
+    replaceFalKeyPool(next.falKeys);
+    for (const alias of [...modelDiff.removed, ...endpointChanged]) modelConfigCache.delete(alias);
+    CUSTOM_ACCESS_KEY = next.customAccessKey;
+    CLIENT_KEYS_FILE = next.clientKeysFile;
+    MODELS_FILE = next.modelsFile;
+    SUPPORTED_MODELS_RAW = next.supportedModelsRaw;
+    incrementCounter('falproxy_config_reloads_total', { result: 'applied' });
+
+    const maskKeys = (keys: string[]) => keys.map(maskApiKey);
+    const shortHashes = (hashes: string[]) => hashes.map(hash => `${CLIENT_KEYS.get(hash)!.tenant}:${hash.slice(0, 12)}`);
+    log.info(`[Config Reload] Applied configuration: ${SUPPORTED_MODELS_MAP.size} models, ${falKeyPool.length} Fal keys, ${CLIENT_KEYS.size} client keys`, {
+        models: modelDiff,
+        fal_keys: { added: maskKeys(falKeyDiff.added), removed: maskKeys(falKeyDiff.removed), reweighted: maskKeys(falKeyDiff.changed) },
+        client_keys: { added: shortHashes(clientKeyDiff.added), removed: clientKeyDiff.removed.map(hash => hash.slice(0, 12)), changed: shortHashes(clientKeyDiff.changed) },
+    });
+    const modelsToWarm = [...modelDiff.added, ...endpointChanged];
+    if (modelsToWarm.length > 0) await warmupCache(modelsToWarm);
+    return null;
+}
+
+// Watches the configuration files that exist right now. Editors often replace a file rather than
+// writing it in place, which ends an inotify watch, so the watcher is re-created after every change.
+async function watchConfigFiles() {
+    const paths: string[] = [];
+    for (const path of ['.env', MODELS_FILE, CLIENT_KEYS_FILE]) {
+        if (!path) continue;
+        try { await Deno.stat(path); paths.push(path); } catch { /* missing or not readable: nothing to watch */ }
+    }
+    if (paths.length === 0) return;
+    let watcher: Deno.FsWatcher;
+    try { watcher = Deno.watchFs(paths); }
+    catch (error) { log.warn(`[Config Reload] Cannot watch ${paths.join(', ')}: ${error instanceof Error ? error.message : error}`); return; }
+    log.debug(`[Config Reload] Watching ${paths.join(', ')}`);
+    for await (const event of watcher) {
+        if (event.kind === 'access') continue;
+        watcher.close();
+        break;
+    }
+    await new Promise(resolve => setTimeout(resolve, CONFIG_WATCH_DEBOUNCE_MS));
+    await reloadConfiguration('file change');
+    watchConfigFiles();
+}
+
+// --- Admin API ---
+// Operator endpoints under /admin/, enabled by setting ADMIN_KEY and called with
+// `Authorization: Bearer <ADMIN_KEY>`. Client keys added or removed here are written back to
+// CLIENT_KEYS_FILE and applied through a configuration reload, so they survive restarts.
+const ADMIN_KEY = Deno.env.get("ADMIN_KEY");
+
+function toIsoTime(timestamp: number): string { return new Date(timestamp).toISOString(); }
+function describeModelConfig(name: string, definition: ModelDefinition) {
+    const cached = modelConfigCache.get(name);
+    const { fetchedAt, nextRetryAt: _nextRetryAt, ...config } = cached ?? { fetchedAt: 0 };
+    const circuit = falCircuits.get(definition.endpoint);
+    return { id: name, endpoint: definition.endpoint, cached: !!cached, fetched_at: fetchedAt > 0 ? toIsoTime(fetchedAt) : null, cache_age_seconds: fetchedAt > 0 ? Math.round((Date.now() - fetchedAt) / 1000) : null, circuit: { open: (circuit?.openUntil ?? 0) > Date.now(), consecutive_failures: circuit?.consecutiveFailures ?? 0 }, config: cached ? config : null };
+}
+function describeClientKey(client: ClientKey) { return { id: client.keyHash.slice(0, 12), tenant: client.tenant, models: client.allowedModels, enabled: client.enabled, rate_limits: client.rateLimits }; }
+
+// Rewrites CLIENT_KEYS_FILE and reloads the configuration, queued behind any reload in progress.
+// Resolves to the reason the reload was rejected, or null once the change is live.
+function updateClientKeysFile(mutate: (clients: any[]) => any[]): Promise<string | null> {
+    const update = configReloadQueue.then(async () => {
+        const file = JSON.parse(await Deno.readTextFile(CLIENT_KEYS_FILE!));
+        if (!Array.isArray(file?.clients)) throw new Error(`${CLIENT_KEYS_FILE} has no top-level 'clients' array.`);
+        file.clients = mutate(file.clients);
+        await Deno.writeTextFile(CLIENT_KEYS_FILE!, JSON.stringify(file, null, 2) + '\n');
+        return await applyConfigurationReload('admin API');
+    });
+    configReloadQueue = update.then(() => undefined, () => undefined);
+    return update;
+}
+
+// Only these fields (plus `key`, which is stored as its digest) are written to CLIENT_KEYS_FILE.
+const CLIENT_KEY_FIELDS = ['tenant', 'models', 'enabled', 'rate_limits', 'key_sha256'];
+
+async function handleAdminAddClientKey(request: Request): Promise<Response> {
+    if (!CLIENT_KEYS_FILE) return openAIErrorResponse(Status.Conflict, { message: "Client keys can only be added at runtime when CLIENT_KEYS_FILE is set.", type: "invalid_request_error" });
+    let body: any;
+    try { body = await request.json(); }
+    catch (error) { return openAIErrorResponse(Status.BadRequest, { message: "Missing or invalid JSON request body.", type: "invalid_request_error" }); }
+    if (!body || typeof body !== 'object' || Array.isArray(body)) return openAIErrorResponse(Status.BadRequest, { message: "The request body must be a client key object.", type: "invalid_request_error" });
+    const { key, ...fields } = body;
+    const unknownField = Object.keys(fields).find(field => !CLIENT_KEY_FIELDS.includes(field));
+    if (unknownField) return openAIErrorResponse(Status.BadRequest, { message: `Unknown field '${unknownField}'. Supported fields: key, ${CLIENT_KEY_FIELDS.join(', ')}.`, type: "invalid_request_error", param: unknownField });
+    if (key !== undefined && (typeof key !== 'string' || key.trim() === '')) return openAIErrorResponse(Status.BadRequest, { message: "'key' must be a non-empty string.", type: "invalid_request_error", param: "key" });
+    // Without `key` or `key_sha256`, a key is generated and returned once in the response.
+    const generatedKey = key === undefined && fields.key_sha256 === undefined ? `sk-${Array.from(crypto.getRandomValues(new Uint8Array(24)), b => b.toString(16).padStart(2, '0')).join('')}` : undefined;
+    const plainKey: string | undefined = key ?? generatedKey;
+    const entry = { ...fields, key_sha256: plainKey !== undefined ? await sha256Hex(plainKey) : fields.key_sha256 };
+    let clientKey: ClientKey;
+    try { clientKey = parseClientKeyEntry(entry, 0, SUPPORTED_MODELS_MAP); }
+    catch (error) { return openAIErrorResponse(Status.BadRequest, { message: (error instanceof Error ? error.message : String(error)).replace(/^clients\[0\]\./, ''), type: "invalid_request_error" }); }
+    if (CLIENT_KEYS.has(clientKey.keyHash)) return openAIErrorResponse(Status.Conflict, { message: "This key is already registered.", type: "invalid_request_error" });
+
+    const rejection = await updateClientKeysFile(clients => [...clients, entry]);
+    if (rejection) return openAIErrorResponse(Status.InternalServerError, { message: `The key was written to ${CLIENT_KEYS_FILE}, but the configuration reload was rejected: ${rejection}`, type: "server_error" });
+    log.info(`[Admin] Added client key ${clientKey.keyHash.slice(0, 12)} for tenant '${clientKey.tenant}'`);
+    return new Response(JSON.stringify({ ...describeClientKey(clientKey), ...(generatedKey ? { key: generatedKey } : {}) }), { status: Status.Created });
+}
+
+async function handleAdminRemoveClientKey(id: string): Promise<Response> {
+    const matches = id.length >= 12 ? Array.from(CLIENT_KEYS.values()).filter(client => client.keyHash.startsWith(id.toLowerCase())) : [];
+    if (matches.length !== 1) return openAIErrorResponse(matches.length === 0 ? Status.NotFound : Status.Conflict, { message: matches.length === 0 ? `No client key found with id '${id}'.` : `Client key id '${id}' is ambiguous; use the full key_sha256.`, type: "invalid_request_error" });
+    const [client] = matches;
+    if (CUSTOM_ACCESS_KEY && client.keyHash === await sha256Hex(CUSTOM_ACCESS_KEY)) return openAIErrorResponse(Status.Conflict, { message: "This key is CUSTOM_ACCESS_KEY; remove it from the environment instead.", type: "invalid_request_error" });
+    const rejection = await updateClientKeysFile(clients => clients.filter(entry => String(entry?.key_sha256).toLowerCase() !== client.keyHash));
+    if (rejection) return openAIErrorResponse(Status.InternalServerError, { message: `The key was removed from ${CLIENT_KEYS_FILE}, but the configuration reload was rejected: ${rejection}`, type: "server_error" });
+    log.info(`[Admin] Removed client key ${client.keyHash.slice(0, 12)} for tenant '${client.tenant}'`);
+    return new Response(JSON.stringify({ ...describeClientKey(client), deleted: true }));
+}
+
+async function handleAdminRequest(request: Request, route: string, path: string): Promise<Response> {
+    if (request.headers.get('Authorization') !== `Bearer ${ADMIN_KEY}`) return openAIErrorResponse(Status.Unauthorized, { message: "Invalid or missing admin key.", type: "authentication_error" });
+    const id = decodeURIComponent(path.split('/')[3] ?? '');
+    const now = Date.now();
+    if (route === '/admin/models' && request.method === 'GET') {
+        return new Response(JSON.stringify({ object: "list", data: Array.from(SUPPORTED_MODELS_MAP, ([name, definition]) => describeModelConfig(name, definition)) }));
+    }
+    if (route === '/admin/models/:id/refresh' && request.method === 'POST') {
+        const definition = SUPPORTED_MODELS_MAP.get(id);
+        if (!definition) return openAIErrorResponse(Status.NotFound, { message: `Model '${id}' is not configured.`, type: "invalid_request_error" });
+        try { await refreshModelConfig(id, definition.endpoint); }
+        catch (error) { return openAIErrorResponse(Status.BadGateway, { message: `Failed to refresh the schema for '${id}': ${error instanceof Error ? error.message : error}`, type: "server_error", code: "fal_api_error" }); }
+        log.info(`[Admin] Refreshed schema for ${id}`);
+        return new Response(JSON.stringify(describeModelConfig(id, definition)));
+    }
+    if (route === '/admin/fal-keys' && request.method === 'GET') {
+        const keys = falKeyPool.map(state => ({ key: maskApiKey(state.key), weight: state.weight, requests: state.requests, errors: state.errors, consecutive_failures: state.consecutiveFailures, cooling_down: state.cooldownUntil > now, cooldown_until: state.cooldownUntil > now ? toIsoTime(state.cooldownUntil) : null, last_error: state.lastError ?? null }));
+        return new Response(JSON.stringify({ object: "list", strategy: AI_KEY_STRATEGY, data: keys }));
+    }
+    if (route === '/admin/generations' && request.method === 'GET') {
+        const generations = [
+            ...Array.from(inFlightGenerations, generation => ({ id: generation.requestId, mode: generation.mode, tenant: generation.usage.tenant, model: generation.usage.model, operation: generation.usage.operation, fal_request_ids: generation.falRequestIds, started_at: toIsoTime(generation.usage.startedAt), elapsed_ms: now - generation.usage.startedAt })),
+            // Async jobs count as in flight until their result has been collected.
+            ...Array.from(generationJobs.values()).filter(job => !job.finished).map(job => ({ id: job.request_id, mode: 'async', tenant: job.tenant, model: job.model, operation: job.usage.operation, fal_request_ids: [job, ...job.fanOut].map(submission => submission.request_id), started_at: toIsoTime(job.createdAt), elapsed_ms: now - job.createdAt })),
+        ];
+        return new Response(JSON.stringify({ object: "list", data: generations }));
+    }
+    if (route === '/admin/usage' && request.method === 'GET') return summarizeUsage(request, new URL(request.url).searchParams.get('tenant') || null);
+    if (route === '/admin/client-keys' && request.method === 'GET') return new Response(JSON.stringify({ object: "list", data: Array.from(CLIENT_KEYS.values(), describeClientKey) }));
+    if (route === '/admin/client-keys' && request.method === 'POST') return await handleAdminAddClientKey(request);
+    if (route === '/admin/client-keys/:id' && request.method === 'DELETE') return await handleAdminRemoveClientKey(id);
+    return openAIErrorResponse(Status.NotFound, { message: `Invalid URL (${request.method} ${path})`, type: "invalid_request_error" });
+}
+
 // --- Main Server Logic ---
-async function warmupCache() {
-    console.log("Starting model cache warm-up...");
+const KNOWN_ROUTES = new Set(['/v1/images/generations', '/v1/images/edits', '/v1/jobs/:id', '/v1/models', '/v1/usage', '/metrics', '/health', '/health/live', '/health/ready', '/admin/models', '/admin/models/:id/refresh', '/admin/fal-keys', '/admin/generations', '/admin/usage', '/admin/client-keys', '/admin/client-keys/:id', '/internal/fal-webhook']);
+defineMetric('falproxy_async_jobs_tracked', 'gauge', 'Async generation jobs currently tracked.', { collect: () => [{ labels: {}, value: generationJobs.size }] });
+defineMetric('falproxy_fal_keys_cooling_down', 'gauge', 'Fal keys currently removed from rotation.', { collect: () => [{ labels: {}, value: falKeyPool.filter(state => state.cooldownUntil > Date.now()).length }] });
+defineMetric('falproxy_model_configs_cached', 'gauge', 'Model configs currently held in the schema cache.', { collect: () => [{ labels: {}, value: modelConfigCache.size }] });
+async function warmupCache(modelNames: string[] = Array.from(SUPPORTED_MODELS_MAP.keys())) {
+    if (modelNames.length === 0) return;
+    log.info("Starting model cache warm-up...");
     await Promise.all(
-      Array.from(SUPPORTED_MODELS_MAP.keys()).map(name => 
-        getModelConfig(name).catch(e => { console.error(`[Warm-up] Failed for ${name}:`, e.message); return null; })
+      modelNames.map(name => 
+        getModelConfig(name).catch(e => { log.error(`[Warm-up] Failed for ${name}: ${e.message}`); return null; })
       )
     );
-    console.log("Model cache warm-up finished.");
-}
-
-warmupCache().then(() => {
-    console.log(`Deno server starting to listen on http://localhost:${PORT}`);
-    Deno.serve({ port: PORT }, async (request: Request) => {
-        const url = new URL(request.url);
-        const path = url.pathname;
-        const startTime = Date.now();
-        if (request.method === 'OPTIONS') {
-            console.log(`[CORS] Handling OPTIONS preflight for ${path}`);
-            return new Response(null, { status: Status.NoContent, headers: CORS_HEADERS });
-        }
-        console.log(`[${new Date(startTime).toISOString()}] --> ${request.method} ${path}`);
-        let response: Response;
-        try {
-            if (path === '/v1/images/generations' && request.method === 'POST') response = await handleImageGenerations(request);
-            else if (path === '/v1/models' && request.method === 'GET') response = await listModels();
-            else if (path === '/health' && request.method === 'GET') response = new Response(JSON.stringify({ status: "ok" }));
-            else response = new Response(JSON.stringify({ error: { message: "Not Found" } }), { status: Status.NotFound });
-        } catch (err) {
-            console.error(`[${new Date().toISOString()}] Critical error handling ${request.method} ${path}:`, err);
-            response = new Response(JSON.stringify({ error: { message: "Internal Server Error" } }), { status: Status.InternalServerError });
-        }
-        for (const [key, value] of Object.entries(CORS_HEADERS)) { response.headers.set(key, value); }
-        if (!response.headers.has('Content-Type') && response.body) response.headers.set('Content-Type', 'application/json');
-        const duration = Date.now() - startTime;
-        console.log(`[${new Date().toISOString()}] <-- ${request.method} ${path} ${response.status} (${duration}ms)`);
-        return response;
+    log.info("Model cache warm-up finished.");
+}
+
+// Caller-supplied X-Request-Id values are reused when they look safe to log; otherwise a new ID is generated.
+const REQUEST_ID_PATTERN = /^[A-Za-z0-9._:-]{1,128}$/;
+
+async function handleRequest(request: Request, requestId: string): Promise<Response> {
+    const url = new URL(request.url);
+    const path = url.pathname;
+    const startTime = Date.now();
+    if (request.method === 'OPTIONS') {
+        log.debug(`[CORS] Handling OPTIONS preflight for ${path}`);
+        return new Response(null, { status: Status.NoContent, headers: { ...CORS_HEADERS, 'X-Request-Id': requestId } });
+    }
+    log.info(`--> ${request.method} ${path}`);
+    let response: Response;
+    const jobMatch = path.match(/^\/v1\/jobs\/([^/]+)$/);
+    const normalizedPath = jobMatch ? '/v1/jobs/:id' : path.replace(/^(\/admin\/(?:models|client-keys))\/[^/]+/, '$1/:id');
+    const route = KNOWN_ROUTES.has(normalizedPath) ? normalizedPath : 'other';
+    try {
+        if (path === '/v1/images/generations' && request.method === 'POST') response = await handleImageGenerations(request);
+        else if (path === '/v1/images/edits' && request.method === 'POST') response = await handleImageEdits(request);
+        else if (jobMatch && request.method === 'GET') response = await handleGetJob(request, decodeURIComponent(jobMatch[1]));
+        else if (jobMatch && request.method === 'DELETE') response = await handleCancelJob(request, decodeURIComponent(jobMatch[1]));
+        else if (path === '/v1/usage' && request.method === 'GET') response = await handleUsage(request);
+        else if (path === '/v1/models' && request.method === 'GET') response = await listModels(request);
+        else if (path === '/metrics' && request.method === 'GET') response = handleMetrics(request);
+        else if (FAL_WEBHOOK_URL && path === '/internal/fal-webhook' && request.method === 'POST') response = await handleFalWebhook(request);
+        else if (ADMIN_KEY && path.startsWith('/admin/')) response = await handleAdminRequest(request, route, path);
+        else if ((path === '/health' || path === '/health/live') && request.method === 'GET') response = new Response(JSON.stringify({ status: "ok" }));
+        else if (path === '/health/ready' && request.method === 'GET') response = await handleReadiness();
+        else response = openAIErrorResponse(Status.NotFound, { message: `Invalid URL (${request.method} ${path})`, type: "invalid_request_error" });
+    } catch (err) {
+        log.error(`Critical error handling ${request.method} ${path}`, { error: err });
+        response = openAIErrorResponse(Status.InternalServerError, { message: "Internal Server Error", type: "server_error" });
+    }
+    for (const [key, value] of Object.entries(CORS_HEADERS)) { response.headers.set(key, value); }
+    if (!response.headers.has('Content-Type') && response.body) response.headers.set('Content-Type', 'application/json');
+    response.headers.set('X-Request-Id', requestId);
+    const { tenant, model, rateLimitHeaders } = getRequestContext(request);
+    if (tenant) response.headers.set('X-Tenant-Name', tenant);
+    for (const [key, value] of Object.entries(rateLimitHeaders || {})) { response.headers.set(key, value); }
+    const duration = Date.now() - startTime;
+    // Like routes, models outside the catalog share one label so clients cannot create new series at will.
+    incrementCounter('falproxy_http_requests_total', { route, method: request.method, status: String(response.status), model: !model ? '' : SUPPORTED_MODELS_MAP.has(model) ? model : 'other' });
+    observeHistogram('falproxy_http_request_duration_seconds', { route }, duration / 1000);
+    log.info(`<-- ${request.method} ${path}`, { status: response.status, duration_ms: duration, ...(tenant ? { tenant } : {}), ...(model ? { model } : {}) });
+    return response;
+}
+
+// Models with a persisted schema can serve requests right away; stale ones are refreshed once the server has started.
+try { await loadSchemaBundle(); }
+catch (error) { log.error(`FATAL: Invalid schema bundle ${SCHEMA_BUNDLE_FILE}: ${error instanceof Error ? error.message : error}`); Deno.exit(1); }
+const restoredModels: string[] = [];
+for (const [name, definition] of SUPPORTED_MODELS_MAP) { if (await restoreModelConfig(name, definition.endpoint)) restoredModels.push(name); }
+if (SCHEMA_CACHE_DIR || SCHEMA_BUNDLE_FILE) log.info(`Restored ${restoredModels.length} of ${SUPPORTED_MODELS_MAP.size} model schemas from disk.`);
+
+warmupCache(Array.from(SUPPORTED_MODELS_MAP.keys()).filter(name => !restoredModels.includes(name))).then(() => {
+    if (restoredModels.length > 0) warmupCache(restoredModels);
+    try { Deno.addSignalListener("SIGHUP", () => { reloadConfiguration('SIGHUP'); }); }
+    catch (error) { log.warn(`[Config Reload] SIGHUP reloads are unavailable on this platform: ${error instanceof Error ? error.message : error}`); }
+    if (CONFIG_WATCH) watchConfigFiles();
+    log.info(`Deno server starting to listen on http://localhost:${PORT}`);
+    Deno.serve({ port: PORT }, (request: Request) => {
+        const incomingId = request.headers.get('X-Request-Id');
+        const requestId = incomingId && REQUEST_ID_PATTERN.test(incomingId) ? incomingId : crypto.randomUUID();
+        return requestLogContext.run({ requestId }, () => handleRequest(request, requestId));
     });
-});
\ No newline at end of file
+});